@@ -0,0 +1,266 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, readFile, rename, stat, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { parse } from 'graphql';
+import { AuditConfig } from "./config.js";
+import { normalizeDocument, stableStringify } from "./utils/operationFingerprint.js";
+import { logger } from "./logger.js";
+
+/** Keys whose values are replaced before anything is hashed or written. */
+const SECRET_KEY_PATTERN = /secret|password|passwd|token|api[-_]?key|authorization|cookie|credential|private[-_]?key/i;
+const REDACTED = '[REDACTED]';
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  /** Name and version the MCP client reported, e.g. "claude-desktop 1.2.0". */
+  client: string | null;
+  /** MCP session id (HTTP transport only). */
+  sessionId: string | null;
+  endpoint: string | null;
+  role: string | null;
+  /**
+   * The GraphQL document the tool was given or, for tools that build their own (e.g.
+   * preview_table_data), the distinct documents it sent, one per line. Canonical single-line form.
+   */
+  operation: string | null;
+  /** SHA-256 of the variables after secrets are redacted. */
+  variablesHash: string | null;
+  /** The remaining tool arguments, with secrets redacted. */
+  arguments: Record<string, unknown>;
+  durationMs: number;
+  status: 'ok' | 'error';
+  /** Rows returned or affected, when the result shows them. */
+  rowCount: number | null;
+  error: string | null;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  endpoint?: string;
+  role?: string;
+  status?: 'ok' | 'error';
+  /** ISO timestamp; only entries at or after it. */
+  since?: string;
+  /** Case-insensitive substring of the operation document. */
+  operationContains?: string;
+  limit: number;
+}
+
+/**
+ * Append-only JSON-lines log of tool calls, rotated by size: `audit.jsonl` is renamed to
+ * `audit.1.jsonl`, which moves to `audit.2.jsonl`, and so on up to `maxFiles`.
+ */
+export interface AuditLog {
+  enabled: boolean;
+  /** Queues an entry; write failures are logged and never fail the tool call. */
+  record(entry: AuditEntry): void;
+  /** Newest matching entries first, across the current and rotated files. */
+  search(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, SECRET_KEY_PATTERN.test(key) ? REDACTED : redactSecrets(item)]));
+  }
+  return value;
+}
+
+export function hashVariables(variables: Record<string, unknown> | undefined): string | null {
+  if (!variables || Object.keys(variables).length === 0) {
+    return null;
+  }
+  return createHash('sha256').update(stableStringify(redactSecrets(variables))).digest('hex');
+}
+
+/**
+ * Normalizes a document for the log; documents that do not parse are kept as given.
+ */
+export function normalizeOperation(document: string | undefined): string | null {
+  if (!document) {
+    return null;
+  }
+  try {
+    return normalizeDocument(parse(document));
+  } catch {
+    return document;
+  }
+}
+
+/**
+ * Counts rows in a tool result: the length of arrays in its first two levels (e.g.
+ * `{ users: [...] }` or `{ result: { users: [...] } }`) plus any `affected_rows`.
+ */
+export function countResultRows(value: unknown, depth: number = 0): number | null {
+  if (Array.isArray(value)) {
+    return value.length;
+  }
+  if (value === null || typeof value !== 'object' || depth > 1) {
+    return null;
+  }
+  let total: number | null = null;
+  for (const [key, item] of Object.entries(value)) {
+    const count = key === 'affected_rows' && typeof item === 'number' ? item : countResultRows(item, depth + 1);
+    if (count !== null) {
+      total = (total ?? 0) + count;
+    }
+  }
+  return total;
+}
+
+const sentOperations = new AsyncLocalStorage<string[]>();
+
+/**
+ * Notes a GraphQL document sent to Hasura by the tool call being audited, if any.
+ */
+export function recordSentOperation(document: string): void {
+  sentOperations.getStore()?.push(document);
+}
+
+function describeSentOperations(documents: string[]): string | null {
+  const normalized = new Set(documents.map(normalizeOperation).filter((d): d is string => d !== null));
+  return normalized.size > 0 ? Array.from(normalized).join('\n') : null;
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+  return (!query.tool || entry.tool === query.tool)
+    && (!query.endpoint || entry.endpoint === query.endpoint)
+    && (!query.role || entry.role === query.role)
+    && (!query.status || entry.status === query.status)
+    && (!query.since || entry.timestamp >= query.since)
+    && (!query.operationContains || (entry.operation ?? '').toLowerCase().includes(query.operationContains.toLowerCase()));
+}
+
+export function createAuditLog(auditConfig: AuditConfig): AuditLog {
+  const { enabled, file, maxBytes, maxFiles } = auditConfig;
+  const rotatedFile = (index: number) => file.replace(/(\.jsonl?)?$/, ext => `.${index}${ext || ''}`);
+
+  let currentSize: number | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  async function rotate(): Promise<void> {
+    await unlink(rotatedFile(maxFiles)).catch(() => undefined);
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      await rename(rotatedFile(i), rotatedFile(i + 1)).catch(() => undefined);
+    }
+    await rename(file, rotatedFile(1)).catch(() => undefined);
+    currentSize = 0;
+  }
+
+  async function write(line: string): Promise<void> {
+    if (currentSize === null) {
+      await mkdir(dirname(file), { recursive: true });
+      currentSize = await stat(file).then(s => s.size, () => 0);
+    }
+    const bytes = Buffer.byteLength(line);
+    if (currentSize > 0 && currentSize + bytes > maxBytes) {
+      await rotate();
+    }
+    await appendFile(file, line, 'utf8');
+    currentSize += bytes;
+  }
+
+  function record(entry: AuditEntry): void {
+    if (!enabled) {
+      return;
+    }
+    const line = `${JSON.stringify(entry)}\n`;
+    writeQueue = writeQueue.then(() => write(line)).catch(error => {
+      currentSize = null;
+      logger.error(`Failed to write audit log entry to ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+
+  async function search(query: AuditQuery): Promise<AuditEntry[]> {
+    // Let queued writes land first so the caller sees its own recent calls.
+    await writeQueue;
+    const results: AuditEntry[] = [];
+    for (const path of [file, ...Array.from({ length: maxFiles }, (_, i) => rotatedFile(i + 1))]) {
+      const text = await readFile(path, 'utf8').catch(() => null);
+      if (text === null) {
+        continue;
+      }
+      const lines = text.split('\n').filter(Boolean).reverse();
+      for (const line of lines) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        if (matches(entry, query)) {
+          results.push(entry);
+          if (results.length >= query.limit) {
+            return results;
+          }
+        }
+      }
+    }
+    return results;
+  }
+
+  return { enabled, record, search };
+}
+
+/** Who made a tool call and where it was sent. */
+export interface AuditContext {
+  client: string | null;
+  sessionId: string | null;
+  endpoint: string | null;
+  role: string | null;
+}
+
+type ToolResult = { content: Array<{ type: "text"; text: string }>; isError?: boolean };
+
+/**
+ * Runs a tool call and records it in the audit log, whether it succeeds, returns an error
+ * result or throws. The result (or error) is passed through unchanged. Tools without a
+ * `query` or `mutation` argument are logged with the documents they sent.
+ */
+export async function auditToolCall<R extends ToolResult>(
+  auditLog: AuditLog,
+  tool: string,
+  input: Record<string, any>,
+  context: AuditContext,
+  run: () => Promise<R>
+): Promise<R> {
+  const { query, mutation, variables, responseFormat: _responseFormat, ...otherArguments } = input;
+  const startedAt = Date.now();
+  const sent: string[] = [];
+  const entry = (status: AuditEntry['status'], rowCount: number | null, error: string | null): AuditEntry => ({
+    timestamp: new Date(startedAt).toISOString(),
+    tool,
+    ...context,
+    operation: normalizeOperation(query ?? mutation) ?? describeSentOperations(sent),
+    variablesHash: hashVariables(variables),
+    arguments: redactSecrets(otherArguments) as Record<string, unknown>,
+    durationMs: Date.now() - startedAt,
+    status,
+    rowCount,
+    error,
+  });
+
+  try {
+    const result = await sentOperations.run(sent, run);
+    const text = result.content[0]?.text ?? '';
+    if (result.isError) {
+      auditLog.record(entry('error', null, text.replace(/\s+/g, ' ').slice(0, 1000)));
+    } else {
+      let parsed: unknown = null;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        // Plain-text results (diagrams, SDL) have no row count.
+      }
+      auditLog.record(entry('ok', countResultRows(parsed), null));
+    }
+    return result;
+  } catch (error) {
+    auditLog.record(entry('error', null, error instanceof Error ? error.message : String(error)));
+    throw error;
+  }
+}
@@ -0,0 +1,54 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+const callSignals = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Returns the abort signal of the tool call being run, if any. It aborts when the client
+ * cancels the call or the call's time limit passes.
+ */
+export function getCallSignal(): AbortSignal | undefined {
+  return callSignals.getStore();
+}
+
+/**
+ * Returns the error a cancelled call fails with: the time limit error, or one saying the
+ * client cancelled the request.
+ */
+export function getAbortError(signal: AbortSignal): Error {
+  if (signal.reason instanceof Error && signal.reason.name !== 'AbortError') {
+    return signal.reason;
+  }
+  const reason = typeof signal.reason === 'string' && signal.reason ? `: ${signal.reason}` : '';
+  return new Error(`Request cancelled by the client${reason}.`);
+}
+
+/**
+ * Runs one tool call with a deadline. Hasura requests and subscriptions started by `fn` pick
+ * up the call's signal through getCallSignal(), and the returned promise rejects as soon as the
+ * client cancels or `timeoutMs` passes, even if `fn` has not finished yet.
+ */
+export async function runWithDeadline<T>(
+  label: string,
+  timeoutMs: number,
+  clientSignal: AbortSignal,
+  fn: () => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(`${label} timed out after ${timeoutMs}ms.`)), timeoutMs);
+  const signal = AbortSignal.any([clientSignal, controller.signal]);
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(getAbortError(signal));
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+  try {
+    return await Promise.race([callSignals.run(signal, fn), aborted]);
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', onAbort!);
+  }
+}
@@ -0,0 +1,434 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { z } from "zod";
+import { parse as parseYaml } from 'yaml';
+import { logger, LOG_LEVELS } from "./logger.js";
+
+export const USAGE = `Usage: node <server> [--config <file.json|file.yaml>] [--transport stdio|http] [--host <host>] [--port <port>] [--read-only] [--allow-mutation <field|glob|/regex/>]... [--require-mutation-confirmation] [HASURA_GRAPHQL_ENDPOINT] [ADMIN_SECRET]`;
+
+const AuthConfigSchema = z.object({
+  adminSecret: z.string().min(1).optional(),
+  bearerToken: z.string().min(1).optional(),
+}).strict();
+
+const TimeoutsConfigSchema = z.object({
+  requestMs: z.number().int().positive().default(30_000),
+  introspectionMs: z.number().int().positive().default(60_000),
+}).strict();
+
+const EndpointConfigSchema = z.object({
+  endpoint: z.string().url(),
+  auth: AuthConfigSchema.default({}),
+  defaultRole: z.string().min(1).optional(),
+  headers: z.record(z.string()).default({}),
+  timeouts: TimeoutsConfigSchema.partial().optional(),
+}).strict();
+
+/** Name given to the endpoint configured through the top-level `endpoint` setting. */
+export const DEFAULT_ENDPOINT_NAME = 'default';
+
+export const ServerConfigSchema = z.object({
+  endpoint: z.string().url().optional(),
+  auth: AuthConfigSchema.default({}),
+  defaultRole: z.string().min(1).optional(),
+  headers: z.record(z.string()).default({}),
+  timeouts: TimeoutsConfigSchema.extend({
+    toolMs: z.number().int().positive().default(300_000),
+    tools: z.record(z.number().int().positive()).default({}),
+  }).strict().default({}),
+  retries: z.object({
+    attempts: z.number().int().min(0).max(10).default(2),
+    initialDelayMs: z.number().int().positive().default(250),
+    maxDelayMs: z.number().int().positive().default(5_000),
+  }).strict().default({}),
+  endpoints: z.record(EndpointConfigSchema).default({}),
+  defaultEndpoint: z.string().optional(),
+  maxResultRows: z.number().int().positive().default(100),
+  queryGuard: z.object({
+    enabled: z.boolean().default(true),
+    maxDepth: z.number().int().positive().default(8),
+    maxUnboundedLists: z.number().int().min(0).default(2),
+    maxEstimatedRows: z.number().int().positive().default(50_000),
+    assumedListSize: z.number().int().positive().default(100),
+  }).strict().default({}),
+  cache: z.object({
+    enabled: z.boolean().default(true),
+    maxEntries: z.number().int().positive().default(500),
+    ttlMs: z.number().int().positive().default(60_000),
+  }).strict().default({}),
+  schema: z.object({
+    refreshIntervalMs: z.number().int().min(5_000, "must be at least 5000 (5 seconds)").optional(),
+  }).strict().default({}),
+  response: z.object({
+    maxBytes: z.number().int().min(1_000, "must be at least 1000").default(100_000),
+    maxTokens: z.number().int().min(250, "must be at least 250").optional(),
+    maxStringLength: z.number().int().min(32, "must be at least 32").default(2_000),
+    format: z.enum(['json', 'compact', 'markdown']).default('json'),
+  }).strict().default({}),
+  export: z.object({
+    directory: z.string().min(1).default('./exports'),
+    maxRows: z.number().int().positive().default(100_000),
+    maxBytes: z.number().int().positive().default(50 * 1024 * 1024),
+  }).strict().default({}),
+  logging: z.object({
+    level: z.enum(LOG_LEVELS).default('info'),
+    format: z.enum(['text', 'json']).default('text'),
+    file: z.string().min(1).optional(),
+  }).strict().default({}),
+  audit: z.object({
+    enabled: z.boolean().default(true),
+    file: z.string().min(1).default('./logs/audit.jsonl'),
+    maxBytes: z.number().int().min(1024, "must be at least 1024").default(10 * 1024 * 1024),
+    maxFiles: z.number().int().min(1).max(100).default(5),
+  }).strict().default({}),
+  tools: z.object({
+    enabled: z.array(z.string()).optional(),
+    disabled: z.array(z.string()).default([]),
+  }).strict().default({}),
+  mutations: z.object({
+    readOnly: z.boolean().default(false),
+    allowList: z.array(z.string()).default([]),
+    requireConfirmation: z.boolean().default(false),
+  }).strict().default({}),
+  transport: z.object({
+    type: z.enum(['stdio', 'http']).default('stdio'),
+    host: z.string().min(1).default('127.0.0.1'),
+    port: z.number().int().min(1).max(65535).default(3000),
+    path: z.string().startsWith('/').default('/mcp'),
+    authToken: z.string().min(16, "must be at least 16 characters").optional(),
+    sessionIdleTimeoutMs: z.number().int().min(1_000, "must be at least 1000 (1 second)").default(30 * 60_000),
+  }).strict().default({}),
+}).strict().superRefine((config, ctx) => {
+  const names = Object.keys(config.endpoints);
+  if (!config.endpoint && names.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['endpoint'],
+      message: "Hasura endpoint is required (config 'endpoint' or 'endpoints', HASURA_GRAPHQL_ENDPOINT or first positional argument)",
+    });
+  }
+  if (config.endpoint && names.includes(DEFAULT_ENDPOINT_NAME)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['endpoints', DEFAULT_ENDPOINT_NAME],
+      message: `'${DEFAULT_ENDPOINT_NAME}' is reserved for the top-level 'endpoint' setting`,
+    });
+  }
+  if (config.defaultEndpoint && !names.includes(config.defaultEndpoint) && !(config.endpoint && config.defaultEndpoint === DEFAULT_ENDPOINT_NAME)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['defaultEndpoint'],
+      message: `Unknown endpoint '${config.defaultEndpoint}'`,
+    });
+  }
+});
+
+export type ServerConfig = z.infer<typeof ServerConfigSchema>;
+
+export type ExportConfig = ServerConfig['export'];
+
+export type AuditConfig = ServerConfig['audit'];
+
+export type QueryGuardConfig = ServerConfig['queryGuard'];
+
+export type CacheConfig = ServerConfig['cache'];
+
+export interface ResolvedEndpointConfig {
+  name: string;
+  endpoint: string;
+  auth: z.infer<typeof AuthConfigSchema>;
+  defaultRole?: string;
+  headers: Record<string, string>;
+  timeouts: z.infer<typeof TimeoutsConfigSchema>;
+  retries: ServerConfig['retries'];
+}
+
+/**
+ * Flattens the top-level endpoint settings and the `endpoints` map into one list.
+ * Named endpoints inherit the top-level timeouts they do not override.
+ * The default endpoint comes first.
+ */
+export function resolveEndpointConfigs(config: ServerConfig): ResolvedEndpointConfig[] {
+  const resolved: ResolvedEndpointConfig[] = [];
+  if (config.endpoint) {
+    resolved.push({
+      name: DEFAULT_ENDPOINT_NAME,
+      endpoint: config.endpoint,
+      auth: config.auth,
+      defaultRole: config.defaultRole,
+      headers: config.headers,
+      timeouts: config.timeouts,
+      retries: config.retries,
+    });
+  }
+  for (const [name, endpointConfig] of Object.entries(config.endpoints)) {
+    resolved.push({
+      name,
+      endpoint: endpointConfig.endpoint,
+      auth: endpointConfig.auth,
+      defaultRole: endpointConfig.defaultRole,
+      headers: endpointConfig.headers,
+      timeouts: { ...config.timeouts, ...endpointConfig.timeouts },
+      retries: config.retries,
+    });
+  }
+  const defaultName = config.defaultEndpoint || resolved[0].name;
+  return [
+    ...resolved.filter(e => e.name === defaultName),
+    ...resolved.filter(e => e.name !== defaultName),
+  ];
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+type RawConfig = Record<string, any>;
+
+function isPlainObject(value: unknown): value is RawConfig {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Objects are merged key by key; arrays and scalars from later sources replace earlier ones.
+function mergeConfig(base: RawConfig, override: RawConfig): RawConfig {
+  const merged: RawConfig = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) {
+      continue;
+    }
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? mergeConfig(merged[key], value) : value;
+  }
+  return merged;
+}
+
+function readConfigFile(path: string): RawConfig {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file '${path}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = ['.yaml', '.yml'].includes(extname(path).toLowerCase()) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(`Cannot parse config file '${path}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new ConfigError(`Config file '${path}' must contain an object at the top level.`);
+  }
+  return parsed;
+}
+
+// Env and argv values are strings; convert the obvious ones and leave anything else for zod to report.
+function envNumber(value: string | undefined): number | string | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const n = Number(value);
+  return Number.isNaN(n) ? value : n;
+}
+
+function envBoolean(value: string | undefined): boolean | string | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const normalized = value.trim().toLowerCase();
+  if (['1', 'true', 'yes', 'on'].includes(normalized)) return true;
+  if (['0', 'false', 'no', 'off'].includes(normalized)) return false;
+  return value;
+}
+
+function envList(value: string | undefined): string[] | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+function envJsonObject(name: string, value: string | undefined): RawConfig | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(value);
+    if (isPlainObject(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new ConfigError(`${name} must be a JSON object.`);
+}
+
+function readEnvConfig(env: NodeJS.ProcessEnv): RawConfig {
+  return {
+    endpoint: env.HASURA_GRAPHQL_ENDPOINT || env.HASURA_ENDPOINT || undefined,
+    auth: {
+      adminSecret: env.HASURA_ADMIN_SECRET || env.HASURA_GRAPHQL_ADMIN_SECRET || undefined,
+      bearerToken: env.HASURA_BEARER_TOKEN || undefined,
+    },
+    defaultRole: env.HASURA_DEFAULT_ROLE || undefined,
+    headers: envJsonObject('HASURA_HEADERS', env.HASURA_HEADERS),
+    endpoints: envJsonObject('HASURA_ENDPOINTS', env.HASURA_ENDPOINTS),
+    defaultEndpoint: env.HASURA_DEFAULT_ENDPOINT || undefined,
+    timeouts: {
+      requestMs: envNumber(env.HASURA_TIMEOUT_MS),
+      introspectionMs: envNumber(env.HASURA_INTROSPECTION_TIMEOUT_MS),
+      toolMs: envNumber(env.HASURA_TOOL_TIMEOUT_MS),
+      tools: envJsonObject('HASURA_TOOL_TIMEOUTS', env.HASURA_TOOL_TIMEOUTS),
+    },
+    retries: {
+      attempts: envNumber(env.HASURA_RETRY_ATTEMPTS),
+      initialDelayMs: envNumber(env.HASURA_RETRY_INITIAL_DELAY_MS),
+      maxDelayMs: envNumber(env.HASURA_RETRY_MAX_DELAY_MS),
+    },
+    maxResultRows: envNumber(env.HASURA_MAX_RESULT_ROWS),
+    queryGuard: {
+      enabled: envBoolean(env.HASURA_QUERY_GUARD_ENABLED),
+      maxDepth: envNumber(env.HASURA_QUERY_MAX_DEPTH),
+      maxUnboundedLists: envNumber(env.HASURA_QUERY_MAX_UNBOUNDED_LISTS),
+      maxEstimatedRows: envNumber(env.HASURA_QUERY_MAX_ESTIMATED_ROWS),
+      assumedListSize: envNumber(env.HASURA_QUERY_ASSUMED_LIST_SIZE),
+    },
+    cache: {
+      enabled: envBoolean(env.HASURA_CACHE_ENABLED),
+      maxEntries: envNumber(env.HASURA_CACHE_MAX_ENTRIES),
+      ttlMs: envNumber(env.HASURA_CACHE_TTL_MS),
+    },
+    schema: {
+      refreshIntervalMs: envNumber(env.HASURA_SCHEMA_REFRESH_INTERVAL_MS),
+    },
+    response: {
+      maxBytes: envNumber(env.HASURA_RESPONSE_MAX_BYTES),
+      maxTokens: envNumber(env.HASURA_RESPONSE_MAX_TOKENS),
+      maxStringLength: envNumber(env.HASURA_RESPONSE_MAX_STRING_LENGTH),
+      format: env.HASURA_RESPONSE_FORMAT || undefined,
+    },
+    export: {
+      directory: env.HASURA_EXPORT_DIR || undefined,
+      maxRows: envNumber(env.HASURA_EXPORT_MAX_ROWS),
+      maxBytes: envNumber(env.HASURA_EXPORT_MAX_BYTES),
+    },
+    logging: {
+      level: env.HASURA_LOG_LEVEL || undefined,
+      format: env.HASURA_LOG_FORMAT || undefined,
+      file: env.HASURA_LOG_FILE || undefined,
+    },
+    audit: {
+      enabled: envBoolean(env.HASURA_AUDIT_ENABLED),
+      file: env.HASURA_AUDIT_FILE || undefined,
+      maxBytes: envNumber(env.HASURA_AUDIT_MAX_BYTES),
+      maxFiles: envNumber(env.HASURA_AUDIT_MAX_FILES),
+    },
+    tools: {
+      enabled: envList(env.HASURA_ENABLED_TOOLS),
+      disabled: envList(env.HASURA_DISABLED_TOOLS),
+    },
+    mutations: {
+      readOnly: envBoolean(env.HASURA_READ_ONLY),
+      allowList: envList(env.HASURA_ALLOWED_MUTATIONS),
+      requireConfirmation: envBoolean(env.HASURA_REQUIRE_MUTATION_CONFIRMATION),
+    },
+    transport: {
+      type: env.HASURA_MCP_TRANSPORT || undefined,
+      host: env.HASURA_MCP_HOST || undefined,
+      port: envNumber(env.HASURA_MCP_PORT),
+      path: env.HASURA_MCP_PATH || undefined,
+      authToken: env.HASURA_MCP_AUTH_TOKEN || undefined,
+      sessionIdleTimeoutMs: envNumber(env.HASURA_MCP_SESSION_IDLE_TIMEOUT_MS),
+    },
+  };
+}
+
+function readArgvConfig(argv: string[]): { configPath?: string; config: RawConfig } {
+  const positional: string[] = [];
+  const allowList: string[] = [];
+  let configPath: string | undefined;
+  let readOnly: boolean | undefined;
+  let requireConfirmation: boolean | undefined;
+  let transportType: string | undefined;
+  let host: string | undefined;
+  let port: number | string | undefined;
+
+  const takeValue = (option: string, i: number) => {
+    if (!argv[i + 1] || argv[i + 1].startsWith('--')) {
+      throw new ConfigError(`${option} requires a value.\n${USAGE}`);
+    }
+    return argv[i + 1];
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--read-only') {
+      readOnly = true;
+    } else if (arg === '--require-mutation-confirmation') {
+      requireConfirmation = true;
+    } else if (arg === '--allow-mutation') {
+      allowList.push(takeValue(arg, i++));
+    } else if (arg.startsWith('--allow-mutation=')) {
+      allowList.push(arg.slice('--allow-mutation='.length));
+    } else if (arg === '--transport') {
+      transportType = takeValue(arg, i++);
+    } else if (arg === '--host') {
+      host = takeValue(arg, i++);
+    } else if (arg === '--port') {
+      port = envNumber(takeValue(arg, i++));
+    } else if (arg === '--config') {
+      configPath = takeValue(arg, i++);
+    } else if (arg.startsWith('--config=')) {
+      configPath = arg.slice('--config='.length);
+    } else if (arg.startsWith('--')) {
+      throw new ConfigError(`Unknown option: ${arg}\n${USAGE}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+  if (positional.length > 2) {
+    throw new ConfigError(`Too many positional arguments.\n${USAGE}`);
+  }
+  if (positional[1]) {
+    logger.warn("Admin secret passed on the command line is visible in process listings. Prefer HASURA_ADMIN_SECRET or a config file.");
+  }
+
+  return {
+    configPath,
+    config: {
+      endpoint: positional[0],
+      auth: { adminSecret: positional[1] },
+      mutations: {
+        readOnly,
+        allowList: allowList.length > 0 ? allowList : undefined,
+        requireConfirmation,
+      },
+      transport: { type: transportType, host, port },
+    },
+  };
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `  - ${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Builds the server configuration from, in increasing priority: the config file
+ * (`--config` or HASURA_MCP_CONFIG), HASURA_* environment variables and command-line
+ * arguments. Throws a ConfigError listing every invalid setting.
+ */
+export function loadConfig(argv: string[], env: NodeJS.ProcessEnv): ServerConfig {
+  const cli = readArgvConfig(argv);
+  const configPath = cli.configPath || env.HASURA_MCP_CONFIG || undefined;
+  const fileConfig = configPath ? readConfigFile(configPath) : {};
+  const merged = mergeConfig(mergeConfig(fileConfig, readEnvConfig(env)), cli.config);
+
+  const parsed = ServerConfigSchema.safeParse(merged);
+  if (!parsed.success) {
+    throw new ConfigError(`Invalid configuration${configPath ? ` (config file: ${configPath})` : ''}:\n${formatIssues(parsed.error)}\n${USAGE}`);
+  }
+  return parsed.data;
+}
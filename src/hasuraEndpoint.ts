@@ -0,0 +1,314 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { GraphQLClient, ClientError } from 'graphql-request';
+import {
+  getIntrospectionQuery,
+  IntrospectionQuery,
+  IntrospectionSchema,
+  OperationTypeNode,
+} from 'graphql';
+import { HasuraEndpoint, ResolveEndpoint, SchemaRefreshResult } from "./types/IServerTool.js";
+import { ResolvedEndpointConfig } from "./config.js";
+import { diffSchemas } from "./utils/schemaDiff.js";
+import { getMetadataUrl, HasuraMetadata, parseMetadata } from "./utils/hasuraMetadata.js";
+import { getSubscriptionUrl, openSubscription, SubscriptionSink } from "./utils/graphqlSubscription.js";
+import { analyzeDocument } from "./utils/graphqlValidation.js";
+import { getAbortError, getCallSignal } from "./callContext.js";
+import { getCacheUsage, getResultCacheKey, ResultCache } from "./resultCache.js";
+import { recordSentOperation } from "./auditLog.js";
+import { logger } from "./logger.js";
+
+/**
+ * Network failures and 5xx responses may pass on a retry. GraphQL errors, 4xx responses and
+ * timeouts are returned as they are.
+ */
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof ClientError) {
+    return error.response.status >= 500;
+  }
+  // fetch reports connection failures (refused, reset, DNS) as a TypeError.
+  return error instanceof TypeError;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof ClientError) {
+    return error.response.errors?.map(e => e.message).join(', ') || `HTTP ${error.response.status}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Creates the GraphQL client, request helper and per-role introspection cache for one endpoint.
+ * Queries made during tool calls that use the shared result cache are served from it; every
+ * mutation and schema refresh clears it.
+ */
+export function createHasuraEndpoint(endpointConfig: ResolvedEndpointConfig, resultCache: ResultCache): HasuraEndpoint {
+  const { name, endpoint, auth, defaultRole, timeouts, retries } = endpointConfig;
+  const logPrefix = `[${name}]`;
+
+  // Keys are lower-cased so per-call headers replace configured ones instead of being sent next to them.
+  const headers: Record<string, string> = Object.fromEntries(
+    Object.entries(endpointConfig.headers).map(([key, value]) => [key.toLowerCase(), value])
+  );
+  if (auth.adminSecret) {
+    headers['x-hasura-admin-secret'] = auth.adminSecret;
+  }
+  if (auth.bearerToken) {
+    headers['authorization'] = `Bearer ${auth.bearerToken}`;
+  }
+  if (defaultRole) {
+    headers['x-hasura-role'] = defaultRole;
+  }
+  const gqlClient = new GraphQLClient(endpoint, { headers });
+
+  // Per-call headers set the role and session variables; they never replace the endpoint's credentials.
+  function withRequestHeaders(requestHeaders?: Record<string, string>): Record<string, string> {
+    const merged = { ...headers };
+    for (const [key, value] of Object.entries(requestHeaders || {})) {
+      const lowerKey = key.toLowerCase();
+      if (lowerKey !== 'x-hasura-admin-secret' && lowerKey !== 'authorization') {
+        merged[lowerKey] = value;
+      }
+    }
+    return merged;
+  }
+
+  async function sendRequest<T>(
+    query: string,
+    variables: Record<string, any> | undefined,
+    requestHeaders: Record<string, string> | undefined,
+    timeoutMs: number,
+    isQuery: boolean
+  ): Promise<T> {
+    const callSignal = getCallSignal();
+    // Only queries are retried; running a mutation twice could apply it twice.
+    const maxAttempts = isQuery ? retries.attempts + 1 : 1;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const timeoutSignal = AbortSignal.timeout(timeoutMs);
+        return await gqlClient.request<T>({
+          document: query,
+          variables,
+          requestHeaders: withRequestHeaders(requestHeaders),
+          signal: callSignal ? AbortSignal.any([callSignal, timeoutSignal]) : timeoutSignal,
+        });
+      } catch (error) {
+        if (callSignal?.aborted) {
+          throw getAbortError(callSignal);
+        }
+        if (attempt < maxAttempts && isRetryableError(error)) {
+          const delayMs = Math.min(retries.initialDelayMs * 2 ** (attempt - 1), retries.maxDelayMs);
+          logger.warn(`${logPrefix} GraphQL request failed (${describeError(error)}), retrying in ${delayMs}ms (attempt ${attempt + 1} of ${maxAttempts})`);
+          try {
+            await sleep(delayMs, undefined, { signal: callSignal });
+          } catch {
+            throw getAbortError(callSignal!);
+          }
+          continue;
+        }
+        if (error instanceof ClientError) {
+          const gqlErrors = describeError(error);
+          logger.error(`${logPrefix} GraphQL Request Failed: ${gqlErrors}`, error.response);
+          throw new Error(`GraphQL operation failed: ${gqlErrors}`);
+        }
+        if (error instanceof Error && error.name === 'TimeoutError') {
+          logger.error(`${logPrefix} GraphQL request timed out after ${timeoutMs}ms`);
+          throw new Error(`GraphQL request timed out after ${timeoutMs}ms.`);
+        }
+        logger.error(`${logPrefix} Unexpected error during GraphQL request:`, error);
+        throw error;
+      }
+    }
+  }
+
+  async function makeGqlRequest<
+    T = any,
+    V extends Record<string, any> = Record<string, any>
+  >(
+    query: string,
+    variables?: V,
+    requestHeaders?: Record<string, string>
+  ): Promise<T> {
+    recordSentOperation(query);
+    const { document, operationTypes } = analyzeDocument(query);
+    const isQuery = operationTypes.length > 0 && operationTypes.every(type => type === OperationTypeNode.QUERY);
+    const cacheUsage = getCacheUsage();
+    if (!isQuery || !document || !cacheUsage) {
+      try {
+        return await sendRequest<T>(query, variables, requestHeaders, timeouts.requestMs, isQuery);
+      } finally {
+        // Any mutation may change what a cached query would return, so it invalidates them all.
+        if (operationTypes.includes(OperationTypeNode.MUTATION)) {
+          resultCache.clear(`mutation on endpoint '${name}'`);
+        }
+      }
+    }
+
+    const cacheKey = getResultCacheKey(name, document, variables, requestHeaders);
+    const cached = cacheUsage.readFromCache ? resultCache.get(cacheKey) : undefined;
+    if (cached) {
+      cacheUsage.hits++;
+      cacheUsage.oldestHitAt = Math.min(cacheUsage.oldestHitAt ?? cached.storedAt, cached.storedAt);
+      return cached.value as T;
+    }
+    cacheUsage.misses++;
+    const generation = resultCache.generation;
+    const result = await sendRequest<T>(query, variables, requestHeaders, timeouts.requestMs, true);
+    resultCache.set(cacheKey, result, generation);
+    return result;
+  }
+
+  // Introspection results are cached per role; the admin/default view uses DEFAULT_ROLE_KEY.
+  const DEFAULT_ROLE_KEY = '';
+  const introspectionSchemas = new Map<string, IntrospectionSchema>();
+
+  async function getIntrospectionSchema(role?: string): Promise<IntrospectionSchema> {
+    const cached = introspectionSchemas.get(role || DEFAULT_ROLE_KEY);
+    if (cached) {
+      return cached;
+    }
+    return fetchIntrospectionSchema(role);
+  }
+
+  async function fetchIntrospectionSchema(role?: string): Promise<IntrospectionSchema> {
+    const cacheKey = role || DEFAULT_ROLE_KEY;
+    const roleLabel = role ? ` for role '${role}'` : '';
+    logger.info(`${logPrefix} Fetching GraphQL schema via introspection${roleLabel}...`);
+    const introspectionQuery = getIntrospectionQuery();
+    try {
+      const roleHeaders: Record<string, string> = role ? { 'x-hasura-role': role } : {};
+      const result = await sendRequest<IntrospectionQuery>(introspectionQuery, undefined, roleHeaders, timeouts.introspectionMs, true);
+      if (!result.__schema) {
+        throw new Error("Introspection query did not return a __schema object.");
+      }
+      introspectionSchemas.set(cacheKey, result.__schema);
+      logger.info(`${logPrefix} Introspection successful${roleLabel}, schema cached.`);
+      return result.__schema;
+    } catch (error) {
+      logger.error(`${logPrefix} Failed to fetch or cache introspection schema${roleLabel}:`, error);
+      throw new Error(`Failed to get GraphQL schema: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // The metadata API needs admin access, so it is only used when an admin secret is configured.
+  const metadataUrl = auth.adminSecret ? getMetadataUrl(endpoint) : null;
+  let metadataCache: Promise<HasuraMetadata> | null = null;
+
+  async function fetchMetadata(url: string): Promise<HasuraMetadata> {
+    logger.info(`${logPrefix} Fetching metadata from ${url}...`);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'content-type': 'application/json' },
+      body: JSON.stringify({ type: 'export_metadata', version: 2, args: {} }),
+      signal: AbortSignal.timeout(timeouts.requestMs),
+    });
+    const body: any = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(`Metadata API returned HTTP ${response.status}: ${body?.error || response.statusText}`);
+    }
+    const metadata = parseMetadata(body);
+    logger.info(`${logPrefix} Metadata loaded: ${metadata.sources.length} source(s), ${metadata.tables.length} tracked table(s).`);
+    return metadata;
+  }
+
+  function getMetadata(): Promise<HasuraMetadata | null> {
+    if (!metadataUrl) {
+      return Promise.resolve(null);
+    }
+    if (!metadataCache) {
+      metadataCache = fetchMetadata(metadataUrl).catch(error => {
+        metadataCache = null;
+        throw new Error(`Failed to export Hasura metadata: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+    return metadataCache;
+  }
+
+  const schemaChangeListeners = new Set<(result: SchemaRefreshResult) => void>();
+  let refreshInFlight: Promise<SchemaRefreshResult> | null = null;
+
+  async function refresh(): Promise<SchemaRefreshResult> {
+    const previous = introspectionSchemas.get(DEFAULT_ROLE_KEY) || null;
+    const current = await fetchIntrospectionSchema();
+    metadataCache = null;
+    resultCache.clear(`schema refresh of endpoint '${name}'`);
+    for (const key of Array.from(introspectionSchemas.keys())) {
+      if (key !== DEFAULT_ROLE_KEY) {
+        introspectionSchemas.delete(key);
+      }
+    }
+    const result: SchemaRefreshResult = {
+      endpoint: name,
+      refreshedAt: new Date().toISOString(),
+      diff: previous ? diffSchemas(previous, current) : null,
+    };
+    if (result.diff && result.diff.changes.length > 0) {
+      logger.info(`${logPrefix} Schema changed: ${result.diff.summary.added} added, ${result.diff.summary.removed} removed, ${result.diff.summary.changed} changed (${result.diff.summary.breaking} breaking).`);
+      for (const listener of schemaChangeListeners) {
+        try {
+          listener(result);
+        } catch (error) {
+          logger.error(`${logPrefix} Schema change listener failed:`, error);
+        }
+      }
+    }
+    return result;
+  }
+
+  function refreshIntrospectionSchema(): Promise<SchemaRefreshResult> {
+    if (!refreshInFlight) {
+      refreshInFlight = refresh().finally(() => {
+        refreshInFlight = null;
+      });
+    }
+    return refreshInFlight;
+  }
+
+  function onSchemaChange(listener: (result: SchemaRefreshResult) => void): () => void {
+    schemaChangeListeners.add(listener);
+    return () => {
+      schemaChangeListeners.delete(listener);
+    };
+  }
+
+  const subscriptionUrl = getSubscriptionUrl(endpoint);
+
+  function subscribe(
+    query: string,
+    variables: Record<string, unknown> | undefined,
+    requestHeaders: Record<string, string>,
+    sink: SubscriptionSink
+  ): () => void {
+    logger.info(`${logPrefix} Opening subscription on ${subscriptionUrl}`);
+    return openSubscription(subscriptionUrl, withRequestHeaders(requestHeaders), query, variables, sink, timeouts.requestMs);
+  }
+
+  return {
+    name,
+    url: endpoint,
+    authMode: auth.adminSecret ? 'admin-secret' : auth.bearerToken ? 'bearer-token' : 'none',
+    defaultRole,
+    makeGqlRequest,
+    getIntrospectionSchema,
+    getMetadata,
+    refreshIntrospectionSchema,
+    onSchemaChange,
+    subscribe,
+  };
+}
+
+/**
+ * Builds a resolver over the configured endpoints. The first endpoint is the default.
+ */
+export function createEndpointResolver(endpoints: HasuraEndpoint[]): ResolveEndpoint {
+  const byName = new Map(endpoints.map(e => [e.name, e]));
+  return (name?: string) => {
+    if (!name) {
+      return endpoints[0];
+    }
+    const endpoint = byName.get(name);
+    if (!endpoint) {
+      throw new Error(`Unknown endpoint '${name}'. Configured endpoints: ${endpoints.map(e => e.name).join(', ')}. Use 'list_endpoints' to see them.`);
+    }
+    return endpoint;
+  };
+}
@@ -0,0 +1,172 @@
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  path: string;
+  authToken?: string;
+  /** A session with no request in flight for this long is closed, as if the client sent DELETE. */
+  sessionIdleTimeoutMs: number;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  /** Requests still being answered, including open SSE streams; the idle timer only runs at zero. */
+  activeRequests: number;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const header = req.headers['authorization'];
+  if (!header || !header.startsWith('Bearer ')) {
+    return false;
+  }
+  const provided = Buffer.from(header.slice('Bearer '.length).trim());
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes.`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Serves MCP over streamable HTTP (JSON responses or SSE streams). Every client session
+ * gets its own McpServer from `createMcpServer`, so tool instances and their per-call state
+ * (such as pending mutation confirmations) are never shared between clients. Sessions end on
+ * DELETE or after `sessionIdleTimeoutMs` without requests, so clients that disconnect without
+ * DELETE do not keep their server, watches and listeners alive.
+ */
+export async function startHttpServer(options: HttpServerOptions, createMcpServer: () => McpServer): Promise<Server> {
+  const sessions = new Map<string, HttpSession>();
+
+  // Keeps the session open until `res` is done, then starts its idle timer again.
+  const trackRequest = (id: string, session: HttpSession, res: ServerResponse) => {
+    clearTimeout(session.idleTimer);
+    session.activeRequests++;
+    res.once('close', () => {
+      session.activeRequests--;
+      if (session.activeRequests > 0 || sessions.get(id) !== session) {
+        return;
+      }
+      session.idleTimer = setTimeout(() => {
+        logger.info(`HTTP session ${id} idle for ${options.sessionIdleTimeoutMs}ms, closing it.`);
+        session.transport.close().catch(error => {
+          logger.warn(`Failed to close idle HTTP session ${id}: ${error}`);
+        });
+      }, options.sessionIdleTimeoutMs);
+      session.idleTimer.unref();
+    });
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== options.path) {
+      sendJsonRpcError(res, 404, `Not found. The MCP endpoint is ${options.path}`);
+      return;
+    }
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+      logger.warn(`Rejected unauthorized HTTP request from ${req.socket.remoteAddress}`);
+      sendJsonRpcError(res, 401, 'Unauthorized: missing or invalid bearer token.', { 'www-authenticate': 'Bearer' });
+      return;
+    }
+
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, `Invalid request body: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+
+      const existing = sessionId ? sessions.get(sessionId) : undefined;
+      if (existing) {
+        trackRequest(sessionId!, existing, res);
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? `Unknown session '${sessionId}'.` : 'No session: the first request must be an initialize request.');
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          const session: HttpSession = { transport, activeRequests: 0 };
+          sessions.set(id, session);
+          trackRequest(id, session, res);
+          logger.info(`HTTP session ${id} opened (${sessions.size} active).`);
+        },
+      });
+      transport.onclose = () => {
+        const session = transport.sessionId ? sessions.get(transport.sessionId) : undefined;
+        if (session && sessions.delete(transport.sessionId!)) {
+          clearTimeout(session.idleTimer);
+          logger.info(`HTTP session ${transport.sessionId} closed (${sessions.size} active).`);
+        }
+      };
+      await createMcpServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      const existing = sessionId ? sessions.get(sessionId) : undefined;
+      if (!existing) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? `Unknown session '${sessionId}'.` : "Missing 'mcp-session-id' header.");
+        return;
+      }
+      trackRequest(sessionId!, existing, res);
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    sendJsonRpcError(res, 405, `Method ${req.method} not allowed.`, { allow: 'GET, POST, DELETE' });
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch(error => {
+      logger.error("HTTP request handling failed:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error.');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  return httpServer;
+}
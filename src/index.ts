@@ -1,6 +1,7 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { GraphQLClient, ClientError } from 'graphql-request';
+import { SetLevelRequestSchema, SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { printSchema, printType } from 'graphql';
 import { RunGraphQLQueryTool } from "./tools/RunGraphQLQueryTool.js";
 import { RunGraphQLMutationTool } from "./tools/RunGraphQLMutationTool.js";
 import { ListTablesTool } from "./tools/ListTablesTool.js";
@@ -11,213 +12,406 @@ import { AggregateDataTool } from "./tools/AggregateDataTool.js";
 import { HealthCheckTool } from "./tools/HealthCheckTool.js";
 import { DescribeTableTool } from "./tools/DescribeTableTool.js";
 import { CheckUnsupportedRootTypesTool } from "./tools/CheckUnsupportedRootTypesTool.js";
-import {
-    getIntrospectionQuery,
-    IntrospectionQuery,
-    IntrospectionSchema,
-} from 'graphql';
+import { ListEndpointsTool } from "./tools/ListEndpointsTool.js";
+import { RefreshSchemaTool } from "./tools/RefreshSchemaTool.js";
+import { DescribePermissionsTool } from "./tools/DescribePermissionsTool.js";
+import { RelationshipGraphTool } from "./tools/RelationshipGraphTool.js";
+import { BuildQueryTool } from "./tools/BuildQueryTool.js";
+import { PaginateTableTool } from "./tools/PaginateTableTool.js";
+import { ExportQueryTool } from "./tools/ExportQueryTool.js";
+import { WatchSubscriptionTool } from "./tools/WatchSubscriptionTool.js";
+import { StopWatchTool } from "./tools/StopWatchTool.js";
+import { ReadStreamTool } from "./tools/ReadStreamTool.js";
+import { QueryAuditLogTool } from "./tools/QueryAuditLogTool.js";
+import { compileMutationAllowList, MutationAllowList } from "./utils/mutationAllowList.js";
+import { getClientSchema } from "./utils/graphqlValidation.js";
+import { listTableNames, loadTableSummary } from "./utils/tableSummary.js";
+import { BYTES_PER_TOKEN, ResponseLimits, responseInputShape, shapeToolResult, shapeValue } from "./utils/responseFormatter.js";
+import { HasuraEndpoint, IServerTool } from "./types/IServerTool.js";
+import { loadConfig, resolveEndpointConfigs, ServerConfig } from "./config.js";
+import { createEndpointResolver, createHasuraEndpoint } from "./hasuraEndpoint.js";
+import { startHttpServer } from "./httpServer.js";
+import { createWatchRegistry, WATCH_RESOURCE_TEMPLATE, WatchRegistry } from "./subscriptionWatches.js";
+import { AuditContext, auditToolCall, createAuditLog } from "./auditLog.js";
+import { runWithDeadline } from "./callContext.js";
+import { cacheInputShape, createResultCache, runWithCache } from "./resultCache.js";
+import { addLogListener, configureLogger, isLevelEnabled, logger, LogLevel, LogListener, withLogListener } from "./logger.js";
 
 const SERVER_NAME = "mcp-servers/hasura-advanced";
 const SERVER_VERSION = "1.1.0";
 const SCHEMA_RESOURCE_URI = "hasura:/schema";
 const SCHEMA_RESOURCE_NAME = "Hasura GraphQL Schema (via Introspection)";
 const SCHEMA_MIME_TYPE = "application/json";
+const SDL_RESOURCE_URI = "hasura:/schema.graphql";
+const SDL_RESOURCE_NAME = "Hasura GraphQL Schema (SDL)";
+const SDL_MIME_TYPE = "application/graphql";
+const TYPE_RESOURCE_TEMPLATE = "hasura:/types/{name}";
+const TABLE_RESOURCE_TEMPLATE = "hasura:/tables/{name}";
 
-const server = new McpServer({
-  name: SERVER_NAME,
-  version: SERVER_VERSION,
-  capabilities: {
-    resources: {},
-    tools: {},
-  },
+let config: ServerConfig;
+let mutationAllowList: MutationAllowList | undefined;
+try {
+  config = loadConfig(process.argv.slice(2), process.env);
+  configureLogger(config.logging);
+  mutationAllowList = config.mutations.allowList.length > 0 ? compileMutationAllowList(config.mutations.allowList) : undefined;
+} catch (error) {
+  logger.critical(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
+// One result cache for the whole process; keys include the endpoint, role and session variables.
+const resultCache = createResultCache(config.cache);
+if (config.cache.enabled) {
+  logger.info(`Result cache: up to ${config.cache.maxEntries} entries, ${config.cache.ttlMs}ms TTL`);
+}
+
+const endpoints = resolveEndpointConfigs(config).map(endpointConfig => {
+  logger.info(`Targeting Hasura Endpoint '${endpointConfig.name}': ${endpointConfig.endpoint}`);
+  if (endpointConfig.auth.adminSecret) {
+    logger.info(`[${endpointConfig.name}] Using Admin Secret.`);
+  } else if (endpointConfig.auth.bearerToken) {
+    logger.info(`[${endpointConfig.name}] Using Bearer token authentication.`);
+  } else {
+    logger.warn(`[${endpointConfig.name}] No Admin Secret provided. Ensure Hasura permissions are configured for the default role.`);
+  }
+  if (endpointConfig.defaultRole) {
+    logger.info(`[${endpointConfig.name}] Default role: ${endpointConfig.defaultRole}`);
+  }
+  return createHasuraEndpoint(endpointConfig, resultCache);
 });
+const resolveEndpoint = createEndpointResolver(endpoints);
+logger.info(`Default endpoint: ${endpoints[0].name}`);
 
-const args = process.argv.slice(2);
-if (args.length < 1) {
-  console.error(`Usage: node ${process.argv[1]} <HASURA_GRAPHQL_ENDPOINT> [ADMIN_SECRET]`);
-  process.exit(1);
+if (config.mutations.readOnly) {
+  logger.info("Read-only mode enabled, 'run_graphql_mutation' will not be registered.");
+} else if (mutationAllowList) {
+  logger.info(`Mutation allow-list enabled: ${mutationAllowList.entries.join(', ')}`);
+}
+if (!config.mutations.readOnly && config.mutations.requireConfirmation) {
+  logger.info("Mutations require a dry run and confirmation token before they run.");
+}
+
+const responseLimits: ResponseLimits = {
+  maxBytes: config.response.maxTokens ? config.response.maxTokens * BYTES_PER_TOKEN : config.response.maxBytes,
+  maxStringLength: config.response.maxStringLength,
+};
+logger.info(`Response budget: ${responseLimits.maxBytes} bytes, format: ${config.response.format}`);
+
+// One audit log for the whole process, shared by every MCP session.
+const auditLog = createAuditLog(config.audit);
+if (config.audit.enabled) {
+  logger.info(`Audit log: ${config.audit.file} (rotated at ${config.audit.maxBytes} bytes, ${config.audit.maxFiles} files kept)`);
 }
-const HASURA_ENDPOINT = args[0];
-const ADMIN_SECRET = args[1];
-
-console.log(`[INFO] Targeting Hasura Endpoint: ${HASURA_ENDPOINT}`);
-if (ADMIN_SECRET) {
-  console.log("[INFO] Using Admin Secret.");
-} else {
-  console.warn("[WARN] No Admin Secret provided. Ensure Hasura permissions are configured for the default role.");
+
+// Tools are created per MCP server instance; over HTTP every session gets its own
+// instances so per-call state such as pending mutation confirmations stays isolated.
+function createTools(watches: WatchRegistry): IServerTool[] {
+  return [
+    new RunGraphQLQueryTool(resolveEndpoint, config.queryGuard),
+    new RunGraphQLMutationTool(resolveEndpoint, mutationAllowList, config.mutations.requireConfirmation),
+    new ListTablesTool(resolveEndpoint),
+    new ListRootFieldsTool(resolveEndpoint),
+    new DescribeGraphQLTypeTool(resolveEndpoint),
+    new PreviewTableDataTool(resolveEndpoint),
+    new AggregateDataTool(resolveEndpoint),
+    new HealthCheckTool(resolveEndpoint),
+    new DescribeTableTool(resolveEndpoint),
+    new CheckUnsupportedRootTypesTool(resolveEndpoint),
+    new ListEndpointsTool(endpoints),
+    new RefreshSchemaTool(resolveEndpoint),
+    new DescribePermissionsTool(resolveEndpoint),
+    new RelationshipGraphTool(resolveEndpoint),
+    new BuildQueryTool(resolveEndpoint, config.maxResultRows),
+    new PaginateTableTool(resolveEndpoint, responseLimits, config.response.format),
+    new ExportQueryTool(resolveEndpoint, config.export),
+    new WatchSubscriptionTool(resolveEndpoint, watches),
+    new StopWatchTool(watches),
+    new ReadStreamTool(resolveEndpoint),
+    new QueryAuditLogTool(auditLog),
+  ];
+}
+
+function isToolEnabled(name: string): boolean {
+  if (name === 'run_graphql_mutation' && config.mutations.readOnly) {
+    return false;
+  }
+  if (config.tools.enabled && !config.tools.enabled.includes(name)) {
+    return false;
+  }
+  return !config.tools.disabled.includes(name);
 }
 
-const headers: Record<string, string> = {};
-if (ADMIN_SECRET) {
-  headers['x-hasura-admin-secret'] = ADMIN_SECRET;
+const knownToolNames = createTools(createWatchRegistry()).map(t => t.name);
+const unknownToolNames = [...(config.tools.enabled || []), ...config.tools.disabled, ...Object.keys(config.timeouts.tools)].filter(n => !knownToolNames.includes(n));
+if (unknownToolNames.length > 0) {
+  logger.critical(`Unknown tool name(s) in configuration: ${unknownToolNames.join(', ')}. Available tools: ${knownToolNames.join(', ')}`);
+  process.exit(1);
 }
-const gqlClient = new GraphQLClient(HASURA_ENDPOINT, { headers });
-
-async function makeGqlRequest<
-    T = any,
-    V extends Record<string, any> = Record<string, any>
->(
-  query: string,
-  variables?: V,
-  requestHeaders?: Record<string, string>
-): Promise<T> {
-  try {
-    const combinedHeaders = { ...headers, ...requestHeaders };
-    return await gqlClient.request<T>(query, variables, combinedHeaders);
-  } catch (error) {
-    if (error instanceof ClientError) {
-      const gqlErrors = error.response?.errors?.map(e => e.message).join(', ') || 'Unknown GraphQL error';
-      console.error(`[ERROR] GraphQL Request Failed: ${gqlErrors}`, error.response);
-      throw new Error(`GraphQL operation failed: ${gqlErrors}`);
+for (const name of knownToolNames.filter(n => !isToolEnabled(n))) {
+  logger.info(`Tool '${name}' is disabled by configuration.`);
+}
+
+function getAuditContext(server: McpServer, tool: IServerTool, input: Record<string, any>, sessionId?: string): AuditContext {
+  const clientInfo = server.server.getClientVersion();
+  let endpoint: HasuraEndpoint | undefined;
+  if ('endpoint' in tool.inputSchema.shape) {
+    try {
+      endpoint = resolveEndpoint(input.endpoint);
+    } catch {
+      // Unknown endpoint names fail in the tool itself; the name is still logged.
     }
-    console.error("[ERROR] Unexpected error during GraphQL request:", error);
-    throw error;
   }
+  return {
+    client: clientInfo ? `${clientInfo.name} ${clientInfo.version}` : null,
+    sessionId: sessionId ?? null,
+    endpoint: endpoint?.name ?? input.endpoint ?? null,
+    role: input.role ?? endpoint?.defaultRole ?? null,
+  };
 }
 
-let introspectionSchema: IntrospectionSchema | null = null;
+/**
+ * Creates an MCP server for one client. Messages logged outside of tool calls, such as schema
+ * refreshes, retries and other sessions' activity, are only forwarded when
+ * `forwardServerLogs` is set, i.e. on STDIO where the server has a single client.
+ */
+function createServer(forwardServerLogs: boolean): McpServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  }, {
+    capabilities: {
+      resources: { subscribe: true },
+      tools: {},
+      logging: {},
+    },
+  });
 
-async function getIntrospectionSchema(): Promise<IntrospectionSchema> {
-    if (introspectionSchema) {
-        return introspectionSchema;
+  // Server log messages are forwarded to this client once it picks a level with logging/setLevel.
+  let clientLogLevel: LogLevel | undefined;
+  server.server.setRequestHandler(SetLevelRequestSchema, async request => {
+    clientLogLevel = request.params.level;
+    return {};
+  });
+  const forwardLog: LogListener = record => {
+    if (!clientLogLevel || !isLevelEnabled(record.level, clientLogLevel)) {
+      return;
     }
-    console.log("[INFO] Fetching GraphQL schema via introspection...");
-    const introspectionQuery = getIntrospectionQuery();
-    try {
-        const result = await makeGqlRequest<IntrospectionQuery>(introspectionQuery);
-        if (!result.__schema) {
-        throw new Error("Introspection query did not return a __schema object.");
-        }
-        introspectionSchema = result.__schema;
-        console.log("[INFO] Introspection successful, schema cached.");
-        return introspectionSchema;
-    } catch (error) {
-        console.error("[ERROR] Failed to fetch or cache introspection schema:", error);
-        introspectionSchema = null;
-        throw new Error(`Failed to get GraphQL schema: ${error instanceof Error ? error.message : String(error)}`);
+    server.server.sendLoggingMessage({
+      level: record.level,
+      logger: SERVER_NAME,
+      data: record.data === undefined ? record.message : { message: record.message, data: record.data },
+    }).catch(() => {
+      // Logging the failure would only try to forward it again.
+    });
+  };
+  const stopForwardingLogs = forwardServerLogs ? addLogListener(forwardLog) : () => {};
+
+  // Track resource subscriptions for this client so schema changes can be pushed to it.
+  const subscribedUris = new Set<string>();
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    subscribedUris.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscribedUris.delete(request.params.uri);
+    return {};
+  });
+  const stopWatchingSchema = resolveEndpoint().onSchemaChange(() => {
+    // Every resource is derived from the default endpoint's schema, so all subscriptions are stale.
+    for (const uri of subscribedUris) {
+      server.server.sendResourceUpdated({ uri }).catch(error => {
+        logger.warn(`Failed to send resource-updated notification for ${uri}: ${error}`);
+      });
+    }
+    server.sendResourceListChanged();
+  });
+
+  // Subscription watches belong to this client and end with its session.
+  const watches = createWatchRegistry();
+  watches.onUpdate(uri => {
+    if (subscribedUris.has(uri)) {
+      server.server.sendResourceUpdated({ uri }).catch(error => {
+        logger.warn(`Failed to send resource-updated notification for ${uri}: ${error}`);
+      });
+    }
+  });
+  watches.onListChanged(() => server.sendResourceListChanged());
+  server.server.onclose = () => {
+    stopWatchingSchema();
+    watches.stopAll();
+    stopForwardingLogs();
+  };
+
+  server.resource(
+    SCHEMA_RESOURCE_NAME,
+    SCHEMA_RESOURCE_URI,
+    { mimeType: SCHEMA_MIME_TYPE },
+    async () => {
+      logger.info(`Handling read request for resource: ${SCHEMA_RESOURCE_URI}`);
+      try {
+        const schema = await resolveEndpoint().getIntrospectionSchema();
+        // The introspection JSON is large; it is minified and cut to the response budget.
+        // The SDL resource and the per-type resources are the compact alternatives.
+        const { text } = shapeValue(schema, responseLimits, 'compact');
+        return {
+          contents: [
+            {
+              uri: SCHEMA_RESOURCE_URI,
+              text,
+              mimeType: SCHEMA_MIME_TYPE
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`Failed to provide schema resource: ${error}`);
+        throw new Error(`Failed to retrieve GraphQL schema: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  );
+
+  server.resource(
+    SDL_RESOURCE_NAME,
+    SDL_RESOURCE_URI,
+    { mimeType: SDL_MIME_TYPE, description: "The full schema as GraphQL SDL, much smaller than the introspection JSON." },
+    async () => {
+      logger.info(`Handling read request for resource: ${SDL_RESOURCE_URI}`);
+      const schema = await resolveEndpoint().getIntrospectionSchema();
+      return { contents: [{ uri: SDL_RESOURCE_URI, text: printSchema(getClientSchema(schema)), mimeType: SDL_MIME_TYPE }] };
+    }
+  );
+
+  server.resource(
+    "GraphQL type (SDL)",
+    new ResourceTemplate(TYPE_RESOURCE_TEMPLATE, {
+      list: async () => {
+        const schema = await resolveEndpoint().getIntrospectionSchema();
+        return {
+          resources: schema.types
+            .filter(t => !t.name.startsWith('__'))
+            .map(t => ({ uri: `hasura:/types/${t.name}`, name: t.name, mimeType: SDL_MIME_TYPE })),
+        };
+      },
+    }),
+    { mimeType: SDL_MIME_TYPE, description: "SDL of a single GraphQL type." },
+    async (uri, { name }) => {
+      logger.info(`Handling read request for resource: ${uri.href}`);
+      const typeName = decodeURIComponent(String(name));
+      const type = getClientSchema(await resolveEndpoint().getIntrospectionSchema()).getType(typeName);
+      if (!type) {
+        throw new Error(`Type '${typeName}' not found in the schema.`);
+      }
+      return { contents: [{ uri: uri.href, text: printType(type), mimeType: SDL_MIME_TYPE }] };
     }
+  );
+
+  server.resource(
+    "Table summary",
+    new ResourceTemplate(TABLE_RESOURCE_TEMPLATE, {
+      list: async () => {
+        const schema = await resolveEndpoint().getIntrospectionSchema();
+        return {
+          resources: listTableNames(schema).map(name => ({ uri: `hasura:/tables/${name}`, name, mimeType: SCHEMA_MIME_TYPE })),
+        };
+      },
+    }),
+    { mimeType: SCHEMA_MIME_TYPE, description: "Columns of a table, as returned by the describe_table tool." },
+    async (uri, { name }) => {
+      logger.info(`Handling read request for resource: ${uri.href}`);
+      const summary = await loadTableSummary(resolveEndpoint(), decodeURIComponent(String(name)));
+      return { contents: [{ uri: uri.href, text: JSON.stringify(summary, null, 2), mimeType: SCHEMA_MIME_TYPE }] };
+    }
+  );
+
+  server.resource(
+    "Subscription watch",
+    new ResourceTemplate(WATCH_RESOURCE_TEMPLATE, {
+      list: async () => ({
+        resources: watches.list().map(w => ({ uri: w.uri, name: `Watch ${w.id} (${w.status})`, mimeType: SCHEMA_MIME_TYPE })),
+      }),
+    }),
+    { mimeType: SCHEMA_MIME_TYPE, description: "Latest events of a subscription started with watch_subscription (keepAlive)." },
+    async (uri, { id }) => {
+      logger.info(`Handling read request for resource: ${uri.href}`);
+      const watch = watches.get(decodeURIComponent(String(id)));
+      if (!watch) {
+        throw new Error(`Watch '${id}' not found; it may have been stopped.`);
+      }
+      return { contents: [{ uri: uri.href, text: shapeValue(watch, responseLimits, 'json').text, mimeType: SCHEMA_MIME_TYPE }] };
+    }
+  );
+
+  // Register all enabled tools
+  for (const tool of createTools(watches)) {
+    if (!isToolEnabled(tool.name)) {
+      continue;
+    }
+    const cacheable = config.cache.enabled && tool.cacheResults === true;
+    server.tool(
+      tool.name,
+      tool.description,
+      { ...tool.inputSchema.shape, ...responseInputShape, ...(cacheable && cacheInputShape) },
+      async (input: Record<string, any>, extra: Parameters<IServerTool['execute']>[1]) => {
+        const context = getAuditContext(server, tool, input, extra.sessionId);
+        const timeoutMs = config.timeouts.tools[tool.name] ?? config.timeouts.toolMs;
+        const execute = () => tool.execute(input, extra);
+        // Messages logged during the call go to the calling client only.
+        const result = await withLogListener(forwardLog, () =>
+          auditToolCall(auditLog, tool.name, input, context, () =>
+            runWithDeadline(`Tool '${tool.name}'`, timeoutMs, extra.signal, () =>
+              cacheable ? runWithCache(input.noCache !== true, execute) : execute()
+            )
+          )
+        );
+        if (tool.bypassResponseShaping?.(input)) {
+          return result;
+        }
+        return shapeToolResult(result, responseLimits, input.responseFormat ?? config.response.format);
+      }
+    );
+  }
+
+  return server;
 }
 
-server.resource(
-  SCHEMA_RESOURCE_NAME,
-  SCHEMA_RESOURCE_URI,
-  { mimeType: SCHEMA_MIME_TYPE },
-  async () => {
-    console.log(`[INFO] Handling read request for resource: ${SCHEMA_RESOURCE_URI}`);
+async function main() {
+  logger.info(`Starting ${SERVER_NAME} v${SERVER_VERSION}...`);
+  for (const endpoint of endpoints) {
     try {
-      const schema = await getIntrospectionSchema();
-      return {
-        contents: [
-          {
-            uri: SCHEMA_RESOURCE_URI,
-            text: JSON.stringify(schema, null, 2),
-            mimeType: SCHEMA_MIME_TYPE
-          }
-        ]
-      };
+      await endpoint.getIntrospectionSchema();
     } catch (error) {
-      console.error(`[ERROR] Failed to provide schema resource: ${error}`);
-      throw new Error(`Failed to retrieve GraphQL schema: ${error instanceof Error ? error.message : String(error)}`);
+      logger.warn(`[${endpoint.name}] Initial schema fetch failed...: ${error}`);
     }
   }
-);
-
-// Register all tools
-const runGraphQLQueryTool = new RunGraphQLQueryTool(makeGqlRequest);
-server.tool(
-  runGraphQLQueryTool.name,
-  runGraphQLQueryTool.description,
-  runGraphQLQueryTool.inputSchema.shape,
-  runGraphQLQueryTool.execute
-);
-
-const runGraphQLMutationTool = new RunGraphQLMutationTool(makeGqlRequest);
-server.tool(
-  runGraphQLMutationTool.name,
-  runGraphQLMutationTool.description,
-  runGraphQLMutationTool.inputSchema.shape,
-  runGraphQLMutationTool.execute
-);
-
-const listTablesTool = new ListTablesTool(makeGqlRequest, getIntrospectionSchema);
-server.tool(
-  listTablesTool.name,
-  listTablesTool.description,
-  listTablesTool.inputSchema.shape,
-  listTablesTool.execute
-);
-
-const listRootFieldsTool = new ListRootFieldsTool(getIntrospectionSchema);
-server.tool(
-  listRootFieldsTool.name,
-  listRootFieldsTool.description,
-  listRootFieldsTool.inputSchema.shape,
-  listRootFieldsTool.execute
-);
-
-const describeGraphQLTypeTool = new DescribeGraphQLTypeTool(getIntrospectionSchema);
-server.tool(
-  describeGraphQLTypeTool.name,
-  describeGraphQLTypeTool.description,
-  describeGraphQLTypeTool.inputSchema.shape,
-  describeGraphQLTypeTool.execute
-);
-
-const previewTableDataTool = new PreviewTableDataTool(makeGqlRequest, getIntrospectionSchema);
-server.tool(
-  previewTableDataTool.name,
-  previewTableDataTool.description,
-  previewTableDataTool.inputSchema.shape,
-  previewTableDataTool.execute
-);
-
-const aggregateDataTool = new AggregateDataTool(makeGqlRequest);
-server.tool(
-  aggregateDataTool.name,
-  aggregateDataTool.description,
-  aggregateDataTool.inputSchema.shape,
-  aggregateDataTool.execute
-);
-
-const healthCheckTool = new HealthCheckTool(makeGqlRequest, HASURA_ENDPOINT);
-server.tool(
-  healthCheckTool.name,
-  healthCheckTool.description,
-  healthCheckTool.inputSchema.shape,
-  healthCheckTool.execute
-);
-
-const describeTableTool = new DescribeTableTool(makeGqlRequest, getIntrospectionSchema);
-server.tool(
-  describeTableTool.name,
-  describeTableTool.description,
-  describeTableTool.inputSchema.shape,
-  describeTableTool.execute
-);
-
-const checkUnsupportedRootTypesTool = new CheckUnsupportedRootTypesTool(getIntrospectionSchema);
-server.tool(
-  checkUnsupportedRootTypesTool.name,
-  checkUnsupportedRootTypesTool.description,
-  checkUnsupportedRootTypesTool.inputSchema.shape,
-  checkUnsupportedRootTypesTool.execute
-);
 
-async function main() {
-  console.log(`[INFO] Starting ${SERVER_NAME} v${SERVER_VERSION}...`);
-  try {
-    await getIntrospectionSchema();
-  } catch (error) {
-    console.warn(`[WARN] Initial schema fetch failed...: ${error}`);
+  if (config.schema.refreshIntervalMs) {
+    const intervalMs = config.schema.refreshIntervalMs;
+    logger.info(`Polling for schema changes every ${intervalMs}ms.`);
+    setInterval(() => {
+      for (const endpoint of endpoints) {
+        endpoint.refreshIntrospectionSchema().catch(error => {
+          logger.warn(`[${endpoint.name}] Scheduled schema refresh failed: ${error instanceof Error ? error.message : String(error)}`);
+        });
+      }
+    }, intervalMs).unref();
+  }
+
+  if (config.transport.type === 'http') {
+    const { host, port, path, authToken, sessionIdleTimeoutMs } = config.transport;
+    if (!authToken) {
+      logger.warn("HTTP transport has no auth token configured; any client that can reach it can use the server.");
+    }
+    await startHttpServer({ host, port, path, authToken, sessionIdleTimeoutMs }, () => createServer(false));
+    logger.info(`${SERVER_NAME} v${SERVER_VERSION} listening on http://${host}:${port}${path} (streamable HTTP).`);
+    return;
   }
 
   const transport = new StdioServerTransport();
-  console.log("[INFO] Connecting server to STDIO transport...");
-  await server.connect(transport);
-  console.error(`[INFO] ${SERVER_NAME} v${SERVER_VERSION} connected and running via STDIO.`);
+  logger.info("Connecting server to STDIO transport...");
+  await createServer(true).connect(transport);
+  logger.info(`${SERVER_NAME} v${SERVER_VERSION} connected and running via STDIO.`);
 }
 
 main().catch((error) => {
-  console.error("[FATAL] Server failed to start or crashed:", error);
+  logger.critical("Server failed to start or crashed:", error);
   process.exit(1);
 });
\ No newline at end of file
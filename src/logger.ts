@@ -0,0 +1,119 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createWriteStream, mkdirSync, WriteStream } from 'node:fs';
+import { dirname } from 'node:path';
+
+/** MCP (RFC 5424) log levels, least severe first. */
+export const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: 'text' | 'json';
+  /** Append to this file instead of writing to stderr. */
+  file?: string;
+}
+
+export interface LogRecord {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  data?: unknown;
+}
+
+export type LogListener = (record: LogRecord) => void;
+
+// Tags of the text format, kept from the original console output.
+const TEXT_TAGS: Record<LogLevel, string> = {
+  debug: 'DEBUG', info: 'INFO', notice: 'NOTICE', warning: 'WARN', error: 'ERROR', critical: 'FATAL', alert: 'FATAL', emergency: 'FATAL',
+};
+
+let options: LoggerOptions = { level: 'info', format: 'text' };
+let fileStream: WriteStream | null = null;
+const listeners = new Set<LogListener>();
+const callContext = new AsyncLocalStorage<LogListener>();
+
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Sets the level, format and destination. Logging never writes to stdout, which is the MCP
+ * channel on the STDIO transport.
+ */
+export function configureLogger(newOptions: LoggerOptions): void {
+  fileStream?.end();
+  fileStream = null;
+  options = newOptions;
+  if (newOptions.file) {
+    mkdirSync(dirname(newOptions.file), { recursive: true });
+    fileStream = createWriteStream(newOptions.file, { flags: 'a' });
+    fileStream.on('error', error => {
+      process.stderr.write(`[ERROR] Cannot write log file ${newOptions.file}: ${error.message}\n`);
+    });
+  }
+}
+
+/**
+ * Registers a listener for messages logged outside of a tool call; returns an unsubscribe function.
+ */
+export function addLogListener(listener: LogListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Runs `fn` so that messages it logs go to `listener` only, instead of every registered
+ * listener. Used to forward a tool call's messages to the client that made it.
+ */
+export function withLogListener<T>(listener: LogListener, fn: () => T): T {
+  return callContext.run(listener, fn);
+}
+
+function serializeData(data: unknown): unknown {
+  if (data instanceof Error) {
+    return { name: data.name, message: data.message, ...(options.level === 'debug' && { stack: data.stack }) };
+  }
+  return data;
+}
+
+function log(level: LogLevel, message: string, data?: unknown): void {
+  const record: LogRecord = {
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    ...(data !== undefined && { data: serializeData(data) }),
+  };
+
+  // Listeners (MCP clients) apply their own level, so they see messages below the local one.
+  const contextListener = callContext.getStore();
+  for (const listener of contextListener ? [contextListener] : listeners) {
+    try {
+      listener(record);
+    } catch {
+      // A failing listener must not break logging or recurse into it.
+    }
+  }
+
+  if (!isLevelEnabled(level, options.level)) {
+    return;
+  }
+  let line: string;
+  if (options.format === 'json') {
+    line = JSON.stringify(record);
+  } else {
+    const details = record.data === undefined ? '' : ` ${typeof record.data === 'string' ? record.data : JSON.stringify(record.data)}`;
+    line = `[${TEXT_TAGS[level]}] ${message}${details}`;
+  }
+  const output: NodeJS.WritableStream = fileStream ?? process.stderr;
+  output.write(`${line}\n`);
+}
+
+export const logger = {
+  debug: (message: string, data?: unknown) => log('debug', message, data),
+  info: (message: string, data?: unknown) => log('info', message, data),
+  warn: (message: string, data?: unknown) => log('warning', message, data),
+  error: (message: string, data?: unknown) => log('error', message, data),
+  critical: (message: string, data?: unknown) => log('critical', message, data),
+};
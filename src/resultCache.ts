@@ -0,0 +1,145 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { z } from "zod";
+import { DocumentNode } from 'graphql';
+import { CacheConfig } from "./config.js";
+import { fingerprintOperation, stableStringify } from "./utils/operationFingerprint.js";
+import { logger } from "./logger.js";
+
+export const cacheInputShape = {
+  noCache: z.boolean().optional().describe("Optional. Set to true to skip cached results and query Hasura again."),
+};
+
+export interface CachedResult {
+  value: unknown;
+  storedAt: number;
+}
+
+/**
+ * In-memory LRU cache of Hasura query results, shared by every endpoint and session.
+ */
+export interface ResultCache {
+  /** Returns a copy of the cached result, or undefined when it is missing or expired. */
+  get(key: string): CachedResult | undefined;
+  /**
+   * Stores a result that was fetched while the cache was at `generation`. It is skipped if the
+   * cache was cleared since, as the result may have been read before the write that cleared it.
+   */
+  set(key: string, value: unknown, generation: number): void;
+  /** Drops every entry, e.g. after a mutation or a schema refresh. */
+  clear(reason: string): void;
+  /** Goes up on every clear(); capture it before fetching a result to store. */
+  readonly generation: number;
+}
+
+/**
+ * The cache key of a query: endpoint, normalized document, variables and the request headers,
+ * which carry the role and session variables.
+ */
+export function getResultCacheKey(
+  endpoint: string,
+  document: DocumentNode,
+  variables: Record<string, unknown> | undefined,
+  requestHeaders: Record<string, string> | undefined
+): string {
+  return `${endpoint}\n${stableStringify(requestHeaders || {})}\n${fingerprintOperation(document, variables)}`;
+}
+
+export function createResultCache(cacheConfig: CacheConfig): ResultCache {
+  // A Map iterates in insertion order, so re-inserting on every hit keeps the least recently used entry first.
+  const entries = new Map<string, CachedResult>();
+  let generation = 0;
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      entries.delete(key);
+      if (Date.now() - entry.storedAt > cacheConfig.ttlMs) {
+        return undefined;
+      }
+      entries.set(key, entry);
+      // Callers may modify what they get back; the cached value must stay as it was.
+      return { value: structuredClone(entry.value), storedAt: entry.storedAt };
+    },
+    set(key, value, fetchedGeneration) {
+      if (fetchedGeneration !== generation) {
+        return;
+      }
+      entries.delete(key);
+      entries.set(key, { value: structuredClone(value), storedAt: Date.now() });
+      while (entries.size > cacheConfig.maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    clear(reason) {
+      generation++;
+      if (entries.size > 0) {
+        logger.info(`Result cache cleared (${entries.size} entries): ${reason}.`);
+        entries.clear();
+      }
+    },
+    get generation() {
+      return generation;
+    },
+  };
+}
+
+/**
+ * How one tool call used the cache. `readFromCache` is false when the caller passed noCache;
+ * fresh results are then still stored for later calls.
+ */
+export interface CacheUsage {
+  readFromCache: boolean;
+  hits: number;
+  misses: number;
+  /** When the oldest result served from the cache was stored. */
+  oldestHitAt?: number;
+}
+
+const callUsage = new AsyncLocalStorage<CacheUsage>();
+
+/**
+ * Returns the cache usage of the tool call being run, or undefined when the call does not use
+ * the cache.
+ */
+export function getCacheUsage(): CacheUsage | undefined {
+  return callUsage.getStore();
+}
+
+/**
+ * Runs a tool call with the result cache turned on. When any of its Hasura queries were served
+ * from the cache, a `_cache` entry with the hit count and the age of the oldest result is added
+ * to the result, like the `_truncated` entry of the response formatter.
+ */
+export async function runWithCache<R extends { content: Array<{ type: "text"; text: string }>; isError?: boolean }>(
+  readFromCache: boolean,
+  fn: () => Promise<R>
+): Promise<R> {
+  const usage: CacheUsage = { readFromCache, hits: 0, misses: 0 };
+  const result = await callUsage.run(usage, fn);
+  if (usage.hits === 0 || result.isError || result.content.length === 0) {
+    return result;
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(result.content[0].text);
+  } catch {
+    return result;
+  }
+  const cacheInfo = {
+    hits: usage.hits,
+    misses: usage.misses,
+    cachedAt: new Date(usage.oldestHitAt!).toISOString(),
+    ageMs: Date.now() - usage.oldestHitAt!,
+    note: "Served from the server's result cache. Pass noCache: true for fresh data.",
+  };
+  const withInfo = value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? { ...value, _cache: cacheInfo }
+    : { data: value, _cache: cacheInfo };
+  return {
+    ...result,
+    content: [{ ...result.content[0], text: JSON.stringify(withInfo, null, 2) }, ...result.content.slice(1)],
+  };
+}
@@ -0,0 +1,166 @@
+import { randomUUID } from 'node:crypto';
+import { HasuraEndpoint } from "./types/IServerTool.js";
+import { logger } from "./logger.js";
+
+/** Watches one MCP session may keep open at a time. */
+export const MAX_ACTIVE_WATCHES = 10;
+
+/** Most recent events kept per watch. */
+export const WATCH_EVENT_BUFFER = 20;
+
+export const WATCH_RESOURCE_TEMPLATE = "hasura:/watches/{id}";
+
+export interface WatchEvent {
+  receivedAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WatchSnapshot {
+  id: string;
+  uri: string;
+  endpoint: string;
+  query: string;
+  variables?: Record<string, unknown>;
+  status: 'active' | 'completed' | 'failed';
+  startedAt: string;
+  lastEventAt: string | null;
+  eventCount: number;
+  error?: string;
+  /** The most recent events, oldest first. */
+  events: WatchEvent[];
+}
+
+/**
+ * The long-lived subscriptions of one MCP session. Each watch is exposed as a resource that
+ * holds its latest events; listeners are told when a watch receives an event or changes status,
+ * and when watches are added or removed.
+ */
+export interface WatchRegistry {
+  start(
+    endpoint: HasuraEndpoint,
+    query: string,
+    variables: Record<string, unknown> | undefined,
+    requestHeaders: Record<string, string>
+  ): WatchSnapshot;
+  get(id: string): WatchSnapshot | undefined;
+  list(): WatchSnapshot[];
+  /** Ends the subscription and removes the watch. Throws for unknown ids. */
+  stop(id: string): WatchSnapshot;
+  stopAll(): void;
+  onUpdate(listener: (uri: string) => void): () => void;
+  onListChanged(listener: () => void): () => void;
+}
+
+export function getWatchUri(id: string): string {
+  return `hasura:/watches/${id}`;
+}
+
+export function createWatchRegistry(): WatchRegistry {
+  const watches = new Map<string, { snapshot: WatchSnapshot; close: () => void }>();
+  const updateListeners = new Set<(uri: string) => void>();
+  const listChangedListeners = new Set<() => void>();
+
+  const notifyUpdate = (uri: string) => {
+    for (const listener of updateListeners) {
+      listener(uri);
+    }
+  };
+  const notifyListChanged = () => {
+    for (const listener of listChangedListeners) {
+      listener();
+    }
+  };
+
+  function start(
+    endpoint: HasuraEndpoint,
+    query: string,
+    variables: Record<string, unknown> | undefined,
+    requestHeaders: Record<string, string>
+  ): WatchSnapshot {
+    // Failed and completed watches keep their resource until stopped but no longer hold a connection.
+    const activeCount = Array.from(watches.values()).filter(w => w.snapshot.status === 'active').length;
+    if (activeCount >= MAX_ACTIVE_WATCHES) {
+      throw new Error(`At most ${MAX_ACTIVE_WATCHES} watches can be open at once. Stop one with 'stop_watch' first.`);
+    }
+    const id = randomUUID();
+    const snapshot: WatchSnapshot = {
+      id,
+      uri: getWatchUri(id),
+      endpoint: endpoint.name,
+      query,
+      ...(variables && { variables }),
+      status: 'active',
+      startedAt: new Date().toISOString(),
+      lastEventAt: null,
+      eventCount: 0,
+      events: [],
+    };
+    const close = endpoint.subscribe(query, variables, requestHeaders, {
+      next: data => {
+        const receivedAt = new Date().toISOString();
+        snapshot.events = [...snapshot.events, { receivedAt, data }].slice(-WATCH_EVENT_BUFFER);
+        snapshot.eventCount++;
+        snapshot.lastEventAt = receivedAt;
+        notifyUpdate(snapshot.uri);
+      },
+      error: error => {
+        logger.warn(`Watch ${id} failed: ${error.message}`);
+        snapshot.status = 'failed';
+        snapshot.error = error.message;
+        notifyUpdate(snapshot.uri);
+      },
+      complete: () => {
+        logger.info(`Watch ${id} completed.`);
+        snapshot.status = 'completed';
+        notifyUpdate(snapshot.uri);
+      },
+    });
+    watches.set(id, { snapshot, close });
+    logger.info(`Watch ${id} started on endpoint '${endpoint.name}'.`);
+    notifyListChanged();
+    return snapshot;
+  }
+
+  function stop(id: string): WatchSnapshot {
+    const watch = watches.get(id);
+    if (!watch) {
+      throw new Error(`Unknown watch '${id}'. Open watches are listed as 'hasura:/watches/...' resources.`);
+    }
+    watch.close();
+    watches.delete(id);
+    logger.info(`Watch ${id} stopped.`);
+    notifyListChanged();
+    return watch.snapshot;
+  }
+
+  function stopAll(): void {
+    for (const watch of watches.values()) {
+      watch.close();
+    }
+    const hadWatches = watches.size > 0;
+    watches.clear();
+    if (hadWatches) {
+      notifyListChanged();
+    }
+  }
+
+  return {
+    start,
+    get: id => watches.get(id)?.snapshot,
+    list: () => Array.from(watches.values(), w => w.snapshot),
+    stop,
+    stopAll,
+    onUpdate(listener) {
+      updateListeners.add(listener);
+      return () => {
+        updateListeners.delete(listener);
+      };
+    },
+    onListChanged(listener) {
+      listChangedListeners.add(listener);
+      return () => {
+        listChangedListeners.delete(listener);
+      };
+    },
+  };
+}
@@ -1,93 +1,230 @@
 import { z } from "zod";
 import { gql, ClientError } from 'graphql-request';
-import { IServerTool, MakeGqlRequest } from "../types/IServerTool.js";
+import { IServerTool, MakeGqlRequest, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { sessionInputShape, buildSessionHeaders } from "../utils/hasuraSession.js";
+import { logger } from "../logger.js";
+
+const AGGREGATE_FUNCTIONS = [
+  "count", "sum", "avg", "min", "max",
+  "stddev", "stddev_pop", "stddev_samp", "variance", "var_pop", "var_samp",
+] as const;
+
+const MAX_GROUPS_LIMIT = 200;
+
+interface ParsedMetric {
+  label: string;
+  fn: typeof AGGREGATE_FUNCTIONS[number];
+  field?: string;
+  distinct: boolean;
+}
+
+/**
+ * Parses a metric such as `count`, `count(distinct user_id)`, `sum(amount)` or `max(created_at)`.
+ */
+function parseMetric(metric: string): ParsedMetric {
+  const match = metric.trim().match(/^(\w+)\s*(?:\(\s*(distinct\s+)?(\w+)?\s*\))?$/i);
+  const fn = match?.[1].toLowerCase() as ParsedMetric['fn'] | undefined;
+  if (!match || !fn || !AGGREGATE_FUNCTIONS.includes(fn)) {
+    throw new Error(`Invalid metric '${metric}'. Use e.g. 'count', 'count(distinct user_id)', 'sum(amount)'. Supported functions: ${AGGREGATE_FUNCTIONS.join(', ')}.`);
+  }
+  const field = match[3];
+  const distinct = Boolean(match[2]);
+  if (fn !== 'count' && !field) {
+    throw new Error(`Metric '${metric}' needs a field, e.g. '${fn}(amount)'.`);
+  }
+  if (distinct && fn !== 'count') {
+    throw new Error(`Metric '${metric}': 'distinct' is only supported for count.`);
+  }
+  const label = field ? `${fn}(${distinct ? 'distinct ' : ''}${field})` : fn;
+  return { label, fn, field, distinct };
+}
+
+/**
+ * Builds the aggregate selection with one alias per metric, so the same function can be
+ * used on several fields (and count can appear with and without distinct).
+ */
+function buildAggregateSelection(metrics: ParsedMetric[]): string {
+  return metrics.map((m, i) => {
+    if (m.fn === 'count') {
+      const args = m.field ? `(columns: [${m.field}]${m.distinct ? ', distinct: true' : ''})` : '';
+      return `m${i}: count${args}`;
+    }
+    return `m${i}: ${m.fn} { ${m.field} }`;
+  }).join(' ');
+}
+
+function readMetrics(metrics: ParsedMetric[], aggregate: any): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  metrics.forEach((m, i) => {
+    const value = aggregate?.[`m${i}`];
+    row[m.label] = m.fn === 'count' ? value ?? null : value?.[m.field!] ?? null;
+  });
+  return row;
+}
 
 export class AggregateDataTool implements IServerTool {
   name = "aggregate_data";
   description = `
-Performs aggregation operations on a Hasura table (count, sum, avg, min, max).
+Performs aggregations on a Hasura table: several metrics in one request, optionally grouped by a column.
 
 Parameters:
   - tableName: The exact name of the table to aggregate
-  - aggregateFunction: The aggregation function (count, sum, avg, min, max)
-  - field: The field to aggregate (required for sum, avg, min, max; not used for count)
+  - metrics: List of metrics, e.g. ["count", "sum(amount)", "avg(amount)", "max(created_at)",
+    "count(distinct user_id)", "stddev(amount)"] (optional if aggregateFunction is given)
+  - groupBy: Column to group by; one aggregate per distinct value is sent in a single request (optional)
+  - maxGroups: Maximum number of groups (default: 50, max: 200)
+  - aggregateFunction: Single aggregation function (count, sum, avg, min, max), kept for compatibility
+  - field: The field for aggregateFunction (required for sum, avg, min, max; not used for count)
   - filter: Hasura GraphQL 'where' filter object to filter rows before aggregation (optional)
+  - role: Hasura role to run as, e.g. 'user' (optional, requires an admin secret)
+  - sessionVariables: Map of x-hasura-* session variables for the role (optional)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
+
+Supported functions: count, sum, avg, min, max, stddev, stddev_pop, stddev_samp, variance, var_pop, var_samp
 
 Returns:
-  - Aggregation result object with the requested metric value
-  - For count: { count: number }
-  - For sum/avg/min/max: { [function]: { [field]: value } }
+  - With metrics: { "<metric>": value } for each metric, e.g. { "count": 10, "sum(amount)": 250 }
+  - With groupBy: { groupBy, rows, groupCount, truncated }, where each row holds the group
+    value under the column name plus one entry per metric
+  - With aggregateFunction only: { count: number } or { [function]: { [field]: value } }
 
-Note: The 'field' parameter is required for sum, avg, min, and max operations,
-but is ignored for count operations.
+Note: Group-by is emulated: distinct values of the column are fetched with distinct_on, then
+each group is aggregated under its own alias. If there are more than maxGroups distinct
+values, only the first maxGroups (in ascending order) are returned and truncated is true.
   `.trim();
   inputSchema = z.object({
     tableName: z.string().describe("The exact name of the table..."),
-    aggregateFunction: z.enum(["count", "sum", "avg", "min", "max"]).describe("The aggregation function..."),
+    metrics: z.array(z.string()).min(1).optional().describe("Optional. Metrics such as 'count', 'sum(amount)', 'avg(amount)', 'count(distinct user_id)'."),
+    groupBy: z.string().optional().describe("Optional. Column to group the metrics by."),
+    maxGroups: z.number().int().positive().max(MAX_GROUPS_LIMIT).optional().default(50).describe("Optional. Maximum number of groups. Default: 50."),
+    aggregateFunction: z.enum(["count", "sum", "avg", "min", "max"]).optional().describe("Optional. Single aggregation function, if 'metrics' is not used."),
     field: z.string().optional().describe("Required for 'sum', 'avg', 'min', 'max'..."),
     filter: z.record(z.unknown()).optional().describe("Optional. A Hasura GraphQL 'where' filter object..."),
+    ...sessionInputShape,
+    ...endpointInputShape,
   });
+  cacheResults = true;
 
-  constructor(private makeGqlRequest: MakeGqlRequest) {
+  constructor(private resolveEndpoint: ResolveEndpoint) {
     this.execute = this.execute.bind(this);
   }
 
   async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
-    const { tableName, aggregateFunction, field, filter } = input;
-    console.log(`[INFO] Executing tool 'aggregate_data': ${aggregateFunction} on ${tableName}...`);
+    const { tableName, metrics, groupBy, maxGroups = 50, aggregateFunction, field, filter, role, sessionVariables, endpoint } = input;
+    logger.info(`Executing tool 'aggregate_data': ${metrics ? metrics.join(', ') : aggregateFunction} on ${tableName}${groupBy ? ` grouped by ${groupBy}` : ''}${role ? ` as role '${role}'` : ''}...`);
+    const { makeGqlRequest } = this.resolveEndpoint(endpoint);
 
-    if (aggregateFunction !== 'count' && !field) {
+    if (!metrics && !aggregateFunction) {
+      throw new Error("Provide 'metrics' (e.g. [\"count\", \"sum(amount)\"]) or 'aggregateFunction'.");
+    }
+    if (!metrics && aggregateFunction !== 'count' && !field) {
       throw new Error(`The 'field' parameter is required for '${aggregateFunction}' aggregation.`);
     }
-    if (aggregateFunction === 'count' && field) {
-      console.warn(`[WARN] 'field' parameter is ignored for 'count' aggregation.`);
+    // groupBy is written into the query text, so it must be a plain column name.
+    if (groupBy !== undefined && !/^\w+$/.test(groupBy)) {
+      throw new Error(`Invalid groupBy '${groupBy}'. Pass a single column name, e.g. 'status'.`);
     }
-
-    const aggregateTableName = `${tableName}_aggregate`;
-
-    let aggregateSelection = '';
-    if (aggregateFunction === 'count') {
-      aggregateSelection = `{ count }`;
-    } else if (field) {
-      aggregateSelection = `{ ${aggregateFunction} { ${field} } }`;
-    } else {
-      throw new Error(`'field' parameter is missing for '${aggregateFunction}' aggregation.`);
+    if (!metrics && aggregateFunction === 'count' && field) {
+      logger.warn(`'field' parameter is ignored for 'count' aggregation.`);
     }
 
+    const parsedMetrics = metrics
+      ? metrics.map(parseMetric)
+      : [parseMetric(aggregateFunction === 'count' ? 'count' : `${aggregateFunction}(${field})`)];
+    const aggregateTableName = `${tableName}_aggregate`;
     const boolExpTypeName = `${tableName}_bool_exp`;
-    const filterVariableDefinition = filter ? `($filter: ${boolExpTypeName}!)` : "";
-    const whereClause = filter ? `where: $filter` : "";
+    const aggregateSelection = buildAggregateSelection(parsedMetrics);
 
-    const query = gql`
-      query AggregateData ${filterVariableDefinition} {
-        ${aggregateTableName}(${whereClause}) {
-          aggregate ${aggregateSelection}
-        }
+    try {
+      const sessionHeaders = buildSessionHeaders(role, sessionVariables);
+
+      if (groupBy) {
+        const result = await this.aggregateByGroup(makeGqlRequest, sessionHeaders, tableName, groupBy, maxGroups, parsedMetrics, aggregateSelection, filter);
+        return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
       }
-    `;
 
-    const variables = filter ? { filter } : {};
+      const filterVariableDefinition = filter ? `($filter: ${boolExpTypeName}!)` : "";
+      const whereClause = filter ? `(where: $filter)` : "";
+      const query = gql`
+        query AggregateData ${filterVariableDefinition} {
+          ${aggregateTableName}${whereClause} {
+            aggregate { ${aggregateSelection} }
+          }
+        }
+      `;
+      const rawResult = await makeGqlRequest(query, filter ? { filter } : {}, sessionHeaders);
 
-    try {
-      const rawResult = await this.makeGqlRequest(query, variables);
-
-      let finalResult = null;
-      if (rawResult && rawResult[aggregateTableName] && rawResult[aggregateTableName].aggregate) {
-        finalResult = rawResult[aggregateTableName].aggregate;
-      } else {
-        console.warn('[WARN] Unexpected result structure from aggregation query:', rawResult);
-        finalResult = rawResult;
+      const aggregate = rawResult?.[aggregateTableName]?.aggregate;
+      if (!aggregate) {
+        logger.warn('Unexpected result structure from aggregation query:', rawResult);
+        return { content: [{ type: "text" as const, text: JSON.stringify(rawResult, null, 2) }] };
       }
 
+      const row = readMetrics(parsedMetrics, aggregate);
+      // The single-function form keeps its original shape: { count } or { fn: { field } }.
+      const finalResult = metrics
+        ? row
+        : aggregateFunction === 'count'
+          ? { count: row.count }
+          : { [aggregateFunction!]: { [field!]: row[parsedMetrics[0].label] } };
+
       return { content: [{ type: "text" as const, text: JSON.stringify(finalResult, null, 2) }] };
     } catch (error: any) {
       if (error instanceof ClientError && error.response?.errors) {
         const gqlErrors = error.response.errors.map(e => e.message).join(', ');
-        console.error(`[ERROR] Tool 'aggregate_data' failed: ${gqlErrors}`, error.response);
+        logger.error(`Tool 'aggregate_data' failed: ${gqlErrors}`, error.response);
         throw new Error(`GraphQL aggregation failed: ${gqlErrors}. Check table/field names and filter syntax.`);
       }
-      console.error(`[ERROR] Tool 'aggregate_data' failed: ${error.message}`);
+      logger.error(`Tool 'aggregate_data' failed: ${error.message}`);
       throw error;
     }
   }
+
+  private async aggregateByGroup(
+    makeGqlRequest: MakeGqlRequest,
+    sessionHeaders: Record<string, string>,
+    tableName: string,
+    groupBy: string,
+    maxGroups: number,
+    metrics: ParsedMetric[],
+    aggregateSelection: string,
+    filter?: Record<string, unknown>
+  ) {
+    const boolExpTypeName = `${tableName}_bool_exp`;
+
+    // Fetch one more than allowed so we can tell whether the groups were truncated.
+    const distinctQuery = gql`
+      query AggregateGroups${filter ? `($filter: ${boolExpTypeName}!)` : ''} {
+        ${tableName}(distinct_on: [${groupBy}], order_by: { ${groupBy}: asc }, limit: ${maxGroups + 1}${filter ? ', where: $filter' : ''}) {
+          ${groupBy}
+        }
+      }
+    `;
+    const distinctResult = await makeGqlRequest(distinctQuery, filter ? { filter } : {}, sessionHeaders);
+    const groupValues: unknown[] = (distinctResult?.[tableName] || []).map((row: any) => row[groupBy]);
+    const truncated = groupValues.length > maxGroups;
+    const groups = groupValues.slice(0, maxGroups);
+
+    if (groups.length === 0) {
+      return { groupBy, rows: [], groupCount: 0, truncated: false };
+    }
+
+    // One aliased aggregate per group, each with its own typed 'where' variable.
+    const variableDefinitions = groups.map((_, i) => `$w${i}: ${boolExpTypeName}!`).join(', ');
+    const selections = groups.map((_, i) => `g${i}: ${tableName}_aggregate(where: $w${i}) { aggregate { ${aggregateSelection} } }`).join('\n');
+    const variables: Record<string, unknown> = {};
+    groups.forEach((value, i) => {
+      const groupCondition = { [groupBy]: value === null ? { _is_null: true } : { _eq: value } };
+      variables[`w${i}`] = filter ? { _and: [filter, groupCondition] } : groupCondition;
+    });
+    const batchQuery = `query AggregateByGroup(${variableDefinitions}) {\n${selections}\n}`;
+    const batchResult = await makeGqlRequest(batchQuery, variables, sessionHeaders);
+
+    const rows = groups.map((value, i) => ({
+      [groupBy]: value,
+      ...readMetrics(metrics, batchResult?.[`g${i}`]?.aggregate),
+    }));
+    return { groupBy, rows, groupCount: rows.length, truncated };
+  }
 }
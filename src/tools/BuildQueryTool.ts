@@ -0,0 +1,97 @@
+import { z } from "zod";
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { sessionInputShape, buildSessionHeaders, getSessionRole } from "../utils/hasuraSession.js";
+import { analyzeDocument, validationErrorResult } from "../utils/graphqlValidation.js";
+import { buildSelectQuery, SelectionInput } from "../utils/queryBuilder.js";
+import { logger } from "../logger.js";
+
+const selectionShape = {
+  columns: z.array(z.string()).optional().describe("Optional. Columns to select. Default: all scalar and enum columns."),
+  where: z.record(z.unknown()).optional().describe("Optional. A Hasura 'where' filter object, e.g. { status: { _eq: 'active' } }."),
+  orderBy: z.union([z.record(z.unknown()), z.array(z.record(z.unknown()))]).optional().describe("Optional. A Hasura 'order_by' object or list, e.g. { created_at: 'desc' }."),
+  limit: z.number().int().positive().optional().describe("Optional. Maximum number of rows."),
+  offset: z.number().int().min(0).optional().describe("Optional. Number of rows to skip."),
+  distinctOn: z.array(z.string()).optional().describe("Optional. Columns for 'distinct_on' (must lead the order_by)."),
+};
+
+const selectionSchema: z.ZodType<SelectionInput> = z.lazy(() => z.object({
+  ...selectionShape,
+  relationships: z.record(selectionSchema).optional().describe("Optional. Nested selections keyed by relationship name."),
+}));
+
+export class BuildQueryTool implements IServerTool {
+  name = "build_query";
+  description = `
+Generates a valid Hasura select query from structured input, checked against the schema, and optionally runs it.
+Prefer this over hand-writing GraphQL for 'run_graphql_query'.
+
+Parameters:
+  - tableName: Query root field of the table, as listed by list_tables
+  - columns: Columns to select (default: all scalar and enum columns)
+  - relationships: Nested selections keyed by relationship name, each taking the same
+    columns/where/orderBy/limit/offset/distinctOn/relationships options (optional)
+  - where: Hasura filter object, e.g. { "status": { "_eq": "active" } } (optional)
+  - orderBy: Hasura order_by object or list, e.g. { "created_at": "desc" } (optional)
+  - limit / offset: Pagination (optional)
+  - distinctOn: Columns for distinct_on (optional)
+  - execute: Also run the query and return the result (default: false)
+  - role: Hasura role to check and run as, e.g. 'user' (optional, requires an admin secret)
+  - sessionVariables: Map of x-hasura-* session variables for the role (optional)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
+
+Returns:
+  - query: The generated GraphQL query; every argument is a variable typed from the schema
+  - variables: The variables to send with it
+  - result: The query result (only with execute)
+  - If the generated query fails schema validation, a structured error list is returned
+
+Note: When executing without a top-level limit, the server's row limit (100 by default) is
+applied. Use relationship and column names from 'describe_table' or 'relationship_graph'.
+  `.trim();
+  inputSchema = z.object({
+    tableName: z.string().describe("The query root field of the table, e.g. 'users'."),
+    ...selectionShape,
+    relationships: z.record(selectionSchema).optional().describe("Optional. Nested selections keyed by relationship name, e.g. { posts: { columns: ['title'], limit: 5 } }."),
+    execute: z.boolean().optional().default(false).describe("Optional. Also run the generated query. Default: false."),
+    ...sessionInputShape,
+    ...endpointInputShape,
+  });
+
+  constructor(
+    private resolveEndpoint: ResolveEndpoint,
+    private maxResultRows: number = 100
+  ) {
+    this.execute = this.execute.bind(this);
+  }
+
+  async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
+    const { tableName, execute = false, role, sessionVariables, endpoint, ...selection } = input;
+    logger.info(`Executing tool 'build_query' for table: ${tableName}${execute ? ' (execute)' : ''}${role ? ` as role '${role}'` : ''}`);
+    const { makeGqlRequest, getIntrospectionSchema } = this.resolveEndpoint(endpoint);
+
+    try {
+      const sessionHeaders = buildSessionHeaders(role, sessionVariables);
+      const schema = await getIntrospectionSchema(getSessionRole(sessionHeaders));
+
+      const limitApplied = execute && selection.limit === undefined;
+      const { query, variables } = buildSelectQuery(schema, tableName, limitApplied ? { ...selection, limit: this.maxResultRows } : selection);
+
+      const analysis = analyzeDocument(query, schema);
+      if (analysis.errors.length > 0) {
+        return validationErrorResult(analysis.errors);
+      }
+
+      const result = {
+        query,
+        variables,
+        ...(execute && { result: await makeGqlRequest(query, variables, sessionHeaders) }),
+        ...(limitApplied && { _warning: `No limit was given, so the server's row limit of ${this.maxResultRows} was applied.` }),
+      };
+      return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+    } catch (error: any) {
+      logger.error(`Tool 'build_query' failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
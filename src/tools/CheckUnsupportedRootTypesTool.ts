@@ -1,6 +1,7 @@
 import { z } from "zod";
-import { IServerTool } from "../types/IServerTool.js";
-import { IntrospectionSchema } from 'graphql';
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { logger } from "../logger.js";
 
 export class CheckUnsupportedRootTypesTool implements IServerTool {
   name = "check_unsupported_root_types";
@@ -8,7 +9,7 @@ export class CheckUnsupportedRootTypesTool implements IServerTool {
 Checks the GraphQL schema for non-standard or custom root types that may not be supported.
 
 Parameters:
-  - None
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
 
 Returns:
   - hasUnsupportedTypes: Boolean indicating if custom root types were detected
@@ -21,17 +22,21 @@ This tool detects potential custom root types that may require special handling
 schema configuration issues. Custom root types are identified by ending with "_root" suffix
 but not being assigned as standard query/mutation/subscription types.
   `.trim();
-  inputSchema = z.object({});
+  inputSchema = z.object({
+    ...endpointInputShape,
+  });
 
-  constructor(private getIntrospectionSchema: () => Promise<IntrospectionSchema>) {
+  constructor(private resolveEndpoint: ResolveEndpoint) {
     this.execute = this.execute.bind(this);
   }
 
   async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
-    console.log(`[INFO] Executing tool 'check_unsupported_root_types'`);
+    const { endpoint } = input;
+    logger.info(`Executing tool 'check_unsupported_root_types'`);
+    const { getIntrospectionSchema } = this.resolveEndpoint(endpoint);
 
     try {
-      const schema = await this.getIntrospectionSchema();
+      const schema = await getIntrospectionSchema();
       const supportedTypes = new Set<string>();
       const unsupportedTypes: Array<{ name: string; fieldCount: number }> = [];
 
@@ -85,7 +90,7 @@ but not being assigned as standard query/mutation/subscription types.
 
       return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
     } catch (error: any) {
-      console.error(`[ERROR] Tool 'check_unsupported_root_types' failed: ${error.message}`);
+      logger.error(`Tool 'check_unsupported_root_types' failed: ${error.message}`);
       throw error;
     }
   }
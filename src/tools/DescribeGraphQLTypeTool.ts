@@ -1,7 +1,7 @@
 import { z } from "zod";
-import { IServerTool } from "../types/IServerTool.js";
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
 import {
-  IntrospectionSchema,
   IntrospectionObjectType,
   IntrospectionInterfaceType,
   IntrospectionInputObjectType,
@@ -10,6 +10,7 @@ import {
   IntrospectionField,
   IntrospectionInputValue
 } from 'graphql';
+import { logger } from "../logger.js";
 
 export class DescribeGraphQLTypeTool implements IServerTool {
   name = "describe_graphql_type";
@@ -18,6 +19,7 @@ Provides detailed information about a specific GraphQL type from the schema.
 
 Parameters:
   - typeName: The exact, case-sensitive name of the GraphQL type
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
 
 Returns:
   - kind: Type kind (OBJECT, INPUT_OBJECT, SCALAR, ENUM, INTERFACE, UNION)
@@ -32,18 +34,20 @@ Supported type kinds: Object, Input Object, Scalar, Enum, Interface, Union
   `.trim();
   inputSchema = z.object({
     typeName: z.string().describe("The exact, case-sensitive name of the GraphQL type..."),
+    ...endpointInputShape,
   });
 
-  constructor(private getIntrospectionSchema: () => Promise<IntrospectionSchema>) {
+  constructor(private resolveEndpoint: ResolveEndpoint) {
     this.execute = this.execute.bind(this);
   }
 
   async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
-    const { typeName } = input;
-    console.log(`[INFO] Executing tool 'describe_graphql_type' for type: ${typeName}`);
+    const { typeName, endpoint } = input;
+    logger.info(`Executing tool 'describe_graphql_type' for type: ${typeName}`);
+    const { getIntrospectionSchema } = this.resolveEndpoint(endpoint);
 
     try {
-      const schema = await this.getIntrospectionSchema();
+      const schema = await getIntrospectionSchema();
       const typeInfo = schema.types.find(t => t.name === typeName);
       if (!typeInfo) {
         throw new Error(`Type '${typeName}' not found in the schema.`);
@@ -78,7 +82,7 @@ Supported type kinds: Object, Input Object, Scalar, Enum, Interface, Union
 
       return { content: [{ type: "text" as const, text: JSON.stringify(formattedInfo, null, 2) }] };
     } catch (error: any) {
-      console.error(`[ERROR] Tool 'describe_graphql_type' failed: ${error.message}`);
+      logger.error(`Tool 'describe_graphql_type' failed: ${error.message}`);
       throw error;
     }
   }
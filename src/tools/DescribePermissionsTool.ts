@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { findMetadataTable, MetadataPermission, MetadataTable } from "../utils/hasuraMetadata.js";
+import { logger } from "../logger.js";
+
+type PermissionSummary = Record<string, unknown>;
+
+function summarizePermission(permission: MetadataPermission): PermissionSummary {
+  const { role: _role, action: _action, ...settings } = permission;
+  // Drop settings that do not apply to this action to keep the output readable.
+  const summary: PermissionSummary = Object.fromEntries(
+    Object.entries(settings).filter(([key, value]) => value !== null && !(key === 'backendOnly' && value === false))
+  );
+  if (permission.filter && Object.keys(permission.filter).length === 0) {
+    summary.allRows = true;
+  }
+  return summary;
+}
+
+function groupByRole(table: MetadataTable, role?: string): Record<string, Record<string, PermissionSummary>> {
+  const roles: Record<string, Record<string, PermissionSummary>> = {};
+  for (const permission of table.permissions) {
+    if (role && permission.role !== role) {
+      continue;
+    }
+    roles[permission.role] ??= {};
+    roles[permission.role][permission.action] = summarizePermission(permission);
+  }
+  return roles;
+}
+
+function tableRef(table: MetadataTable) {
+  return { name: table.rootFields.select, sqlName: `${table.schema}.${table.name}`, source: table.source };
+}
+
+export class DescribePermissionsTool implements IServerTool {
+  name = "describe_permissions";
+  description = `
+Shows the Hasura permissions per role: row filters, allowed columns, presets, limits and aggregation access.
+Use it when a query returns no rows or fails for a role, to tell a permission filter from missing data.
+
+Parameters:
+  - tableName: GraphQL or SQL name of the table to inspect (optional if role is given)
+  - schemaName: Database schema of a SQL table name (optional)
+  - role: Only show this role; without tableName, shows what the role can do across all tables (optional)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
+
+Returns (for a table):
+  - table: name, sqlName and source
+  - roles: Map of role name to its select/insert/update/delete permissions, each with:
+    - columns: Allowed columns ('*' for all)
+    - filter: Row filter (select, update, delete); allRows is true when it is empty
+    - check: Check applied to inserted or updated rows (insert, update)
+    - presets: Column values set from session variables or constants (insert, update)
+    - limit, allowAggregations, computedFields: Select-only settings
+    - backendOnly: Present when the permission is restricted to backend-only requests
+
+Returns (for a role only):
+  - role: The role
+  - tables: Every table the role has any permission on, with that role's permissions
+  - tablesWithoutAccess: Number of tracked tables the role cannot access at all
+
+Note: Requires an admin secret, because permissions are read from the metadata API
+(export_metadata). The 'admin' role always has full access and has no permission entries.
+  `.trim();
+  inputSchema = z.object({
+    tableName: z.string().optional().describe("Optional. GraphQL or SQL name of the table. Required unless role is given."),
+    schemaName: z.string().optional().describe("Optional. Database schema of a SQL table name."),
+    role: z.string().optional().describe("Optional. Only show permissions for this role."),
+    ...endpointInputShape,
+  });
+
+  constructor(private resolveEndpoint: ResolveEndpoint) {
+    this.execute = this.execute.bind(this);
+  }
+
+  async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
+    const { tableName, schemaName, role, endpoint } = input;
+    logger.info(`Executing tool 'describe_permissions'${tableName ? ` for table: ${tableName}` : ''}${role ? ` for role: ${role}` : ''}`);
+    const { getMetadata } = this.resolveEndpoint(endpoint);
+
+    if (!tableName && !role) {
+      throw new Error("Provide a tableName, a role, or both.");
+    }
+
+    try {
+      const metadata = await getMetadata();
+      if (!metadata) {
+        throw new Error("Permissions are read from the Hasura metadata API, which requires an admin secret for this endpoint.");
+      }
+
+      if (tableName) {
+        const table = findMetadataTable(metadata, tableName, schemaName);
+        if (!table) {
+          throw new Error(`Table '${tableName}' is not tracked in the Hasura metadata${schemaName ? ` (schema '${schemaName}')` : ''}. Use 'list_tables' to find table names.`);
+        }
+        const roles = groupByRole(table, role);
+        const result = {
+          table: tableRef(table),
+          roles,
+          ...(role && !roles[role] ? { note: `Role '${role}' has no permissions on this table, so it cannot access it at all.` } : {}),
+        };
+        return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+      }
+
+      const tables = metadata.tables
+        .map(table => ({ table: tableRef(table), permissions: groupByRole(table, role)[role!] }))
+        .filter(t => t.permissions);
+      const result = {
+        role,
+        tables,
+        tablesWithoutAccess: metadata.tables.length - tables.length,
+      };
+      return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+    } catch (error: any) {
+      logger.error(`Tool 'describe_permissions' failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
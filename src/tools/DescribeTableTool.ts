@@ -1,7 +1,9 @@
 import { z } from "zod";
-import { gql } from 'graphql-request';
-import { IServerTool, MakeGqlRequest } from "../types/IServerTool.js";
-import { IntrospectionSchema } from 'graphql';
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { sessionInputShape, buildSessionHeaders, getSessionRole } from "../utils/hasuraSession.js";
+import { loadTableSummary } from "../utils/tableSummary.js";
+import { logger } from "../logger.js";
 
 export class DescribeTableTool implements IServerTool {
   name = "describe_table";
@@ -9,8 +11,11 @@ export class DescribeTableTool implements IServerTool {
 Shows the complete structure of a table including all columns with their types and descriptions.
 
 Parameters:
-  - tableName: The exact name of the table to describe
-  - schemaName: The database schema name (default: 'public')
+  - tableName: The table's GraphQL name (as listed by list_tables) or its SQL name
+  - schemaName: The database schema of a SQL table name (default: 'public')
+  - role: Hasura role to run as, e.g. 'user' (optional, requires an admin secret)
+  - sessionVariables: Map of x-hasura-* session variables for the role (optional)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
 
 Returns:
   - table: Object containing table metadata
@@ -21,132 +26,49 @@ Returns:
       - name: Column name
       - type: GraphQL type (e.g., String!, [Int], etc.)
       - description: Column description (if available)
-      - args: Arguments for the field (if any)
-
-Note: Attempts case variations if exact table name is not found.
+      - args: Arguments for the field (if any), with name, type and description
+      - kind: column, object_relationship, array_relationship or computed_field
+      - targetTable: GraphQL type of the related table (relationships only)
+      - aggregate: True for a relationship's *_aggregate field
+      - isPrimaryKey: True for primary key columns
+    - primaryKey: Primary key columns, from the <table>_by_pk arguments (null if none)
+    - uniqueConstraints: Constraints from the <table>_constraint enum, with name, columns
+      and isPrimaryKey (empty when the role cannot insert into the table)
+    - source, sqlName, graphqlName: Where the table lives (metadata only)
+    - relationships: Object and array relationships with the remote table and columns (metadata only)
+    - computedFields: Computed fields and their SQL functions (metadata only)
+  - basedOn: 'metadata' or 'introspection'
+
+Note: With an admin secret the table is looked up in the Hasura metadata, which gives the real
+schema, source and relationships. Otherwise (or for untracked types) the columns come from the
+cached schema of the given role and the schema name is only used to try '<schema>_<table>'.
+Attempts case variations if exact table name is not found.
   `.trim();
   inputSchema = z.object({
     tableName: z.string().describe("The exact name of the table to describe"),
-    schemaName: z.string().optional().default('public').describe("Optional. The database schema name, defaults to 'public'")
+    schemaName: z.string().optional().default('public').describe("Optional. The database schema name, defaults to 'public'"),
+    ...sessionInputShape,
+    ...endpointInputShape,
   });
 
   constructor(
-    private makeGqlRequest: MakeGqlRequest,
-    private getIntrospectionSchema: () => Promise<IntrospectionSchema>
+    private resolveEndpoint: ResolveEndpoint
   ) {
     this.execute = this.execute.bind(this);
   }
 
   async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
-    const { tableName, schemaName } = input;
-    console.log(`[INFO] Executing tool 'describe_table' for table: ${tableName} in schema: ${schemaName}`);
+    const { tableName, schemaName, role, sessionVariables, endpoint } = input;
+    logger.info(`Executing tool 'describe_table' for table: ${tableName} in schema: ${schemaName}${role ? `, role: ${role}` : ''}`);
+    const hasuraEndpoint = this.resolveEndpoint(endpoint);
 
     try {
-      const schema = await this.getIntrospectionSchema();
-
-      const tableTypeQuery = gql`
-        query GetTableType($typeName: String!) {
-          __type(name: $typeName) {
-            name
-            kind
-            description
-            fields {
-              name
-              description
-              type {
-                kind
-                name
-                ofType {
-                  kind
-                  name
-                  ofType {
-                    kind
-                    name
-                    ofType {
-                      kind
-                      name
-                    }
-                  }
-                }
-              }
-              args {
-                name
-                description
-                type {
-                  kind
-                  name
-                  ofType {
-                    kind
-                    name
-                  }
-                }
-              }
-            }
-          }
-        }
-      `;
-
-      const tableTypeResult = await this.makeGqlRequest(tableTypeQuery, { typeName: tableName });
-
-      if (!tableTypeResult.__type) {
-        console.log(`[INFO] No direct match for table type: ${tableName}, trying case variations`);
-        const pascalCaseName = tableName.charAt(0).toUpperCase() + tableName.slice(1);
-        const alternativeResult = await this.makeGqlRequest(tableTypeQuery, { typeName: pascalCaseName });
-        if (!alternativeResult.__type) {
-          throw new Error(`Table '${tableName}' not found in schema. Check the table name and schema.`);
-        }
-        tableTypeResult.__type = alternativeResult.__type;
-      }
-
-      const columnsInfo = tableTypeResult.__type.fields.map((field: any) => {
-        let typeInfo = field.type;
-        let typeString = '';
-        let isNonNull = false;
-        let isList = false;
-
-        while (typeInfo) {
-          if (typeInfo.kind === 'NON_NULL') {
-            isNonNull = true;
-            typeInfo = typeInfo.ofType;
-          } else if (typeInfo.kind === 'LIST') {
-            isList = true;
-            typeInfo = typeInfo.ofType;
-          } else {
-            typeString = typeInfo.name || 'unknown';
-            break;
-          }
-        }
-
-        let fullTypeString = '';
-        if (isList) {
-          fullTypeString = `[${typeString}]`;
-        } else {
-          fullTypeString = typeString;
-        }
-        if (isNonNull) {
-          fullTypeString += '!';
-        }
-
-        return {
-          name: field.name,
-          type: fullTypeString,
-          description: field.description || null,
-          args: field.args?.length ? field.args : null
-        };
-      });
-
-      const result = {
-        table: {
-          name: tableName,
-          schema: schemaName,
-          description: tableTypeResult.__type.description || null,
-          columns: columnsInfo.sort((a: any, b: any) => a.name.localeCompare(b.name))
-        }
-      };
+      const sessionHeaders = buildSessionHeaders(role, sessionVariables);
+      const result = await loadTableSummary(hasuraEndpoint, tableName, schemaName, getSessionRole(sessionHeaders));
 
       return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
     } catch (error: any) {
-      console.error(`[ERROR] Tool 'describe_table' failed: ${error.message}`);
+      logger.error(`Tool 'describe_table' failed: ${error.message}`);
       throw error;
     }
   }
@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { randomBytes } from 'node:crypto';
+import { access, mkdir, rename, unlink, writeFile } from 'node:fs/promises';
+import { dirname, extname, isAbsolute, relative, resolve } from 'node:path';
+import { Kind, OperationTypeNode } from 'graphql';
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { ExportConfig } from "../config.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { sessionInputShape, buildSessionHeaders, getSessionRole } from "../utils/hasuraSession.js";
+import { analyzeDocument, getRootFields, validationErrorResult } from "../utils/graphqlValidation.js";
+import { fetchKeysetPage, resolveKeysetKeys } from "../utils/keysetPagination.js";
+import { collectColumns, ExportFormat, flattenRow, serializeRows } from "../utils/exportFormats.js";
+import { logger } from "../logger.js";
+
+const MAX_PAGE_SIZE = 10_000;
+
+class ExportLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportLimitError';
+  }
+}
+
+export class ExportQueryTool implements IServerTool {
+  name = "export_query";
+  description = `
+Exports a whole result set to a local CSV or NDJSON file, paging through all rows automatically.
+Returns only a summary, so large datasets never pass through the chat.
+
+Parameters:
+  - path: File path, relative to the server's export directory
+  - format: 'csv' or 'ndjson' (default: from the file extension, otherwise csv)
+  - tableName: Table to export (query root field), paged by keyset on the primary key
+  - columns / where / orderBy: Columns, Hasura filter and sort column for tableName (optional)
+  - query: A GraphQL query with one root field instead of tableName; if it declares $limit
+    and $offset variables it is paged by offset, otherwise it is run once
+  - variables: Variables for query (optional)
+  - pageSize: Rows fetched per request (default: 1000, max: 10000)
+  - overwrite: Replace an existing file (default: false)
+  - role: Hasura role to run as, e.g. 'user' (optional, requires an admin secret)
+  - sessionVariables: Map of x-hasura-* session variables for the role (optional)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
+
+Returns:
+  - path: Absolute path of the written file
+  - format, rowCount, columns, bytes, pages
+
+Note: Nested objects are flattened into dotted columns (e.g. author.name); arrays are written
+as JSON. Exports with more rows or bytes than the server's export limits are refused and no
+file is written. Provide exactly one of tableName or query.
+  `.trim();
+  inputSchema = z.object({
+    path: z.string().min(1).describe("File path relative to the export directory, e.g. 'orders-2024.csv'."),
+    format: z.enum(['csv', 'ndjson']).optional().describe("Optional. Output format. Default: from the file extension, otherwise 'csv'."),
+    tableName: z.string().optional().describe("Optional. Table (query root field) to export. Use this or 'query'."),
+    columns: z.array(z.string()).optional().describe("Optional. Columns to export with tableName. Default: all scalar and enum columns."),
+    where: z.record(z.unknown()).optional().describe("Optional. A Hasura 'where' filter for tableName."),
+    orderBy: z.string().optional().describe("Optional. Sort column for tableName. Default: the primary key."),
+    query: z.string().optional().describe("Optional. GraphQL query with a single root field. Use this or 'tableName'."),
+    variables: z.record(z.unknown()).optional().describe("Optional. Variables for 'query'."),
+    pageSize: z.number().int().positive().max(MAX_PAGE_SIZE).optional().default(1000).describe("Optional. Rows per request. Default: 1000."),
+    overwrite: z.boolean().optional().default(false).describe("Optional. Replace an existing file. Default: false."),
+    ...sessionInputShape,
+    ...endpointInputShape,
+  });
+
+  constructor(
+    private resolveEndpoint: ResolveEndpoint,
+    private exportConfig: ExportConfig
+  ) {
+    this.execute = this.execute.bind(this);
+  }
+
+  async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
+    const { path, tableName, query, pageSize = 1000, overwrite = false, role, sessionVariables, endpoint } = input;
+    logger.info(`Executing tool 'export_query' to ${path}${tableName ? ` from table: ${tableName}` : ''}`);
+    const { makeGqlRequest, getIntrospectionSchema } = this.resolveEndpoint(endpoint);
+
+    if (Boolean(tableName) === Boolean(query)) {
+      throw new Error("Provide exactly one of 'tableName' or 'query'.");
+    }
+    const format: ExportFormat = input.format ?? (['.ndjson', '.jsonl'].includes(extname(path).toLowerCase()) ? 'ndjson' : 'csv');
+    const filePath = this.resolveExportPath(path);
+    if (!overwrite && await access(filePath).then(() => true, () => false)) {
+      throw new Error(`File '${path}' already exists in the export directory. Set overwrite=true to replace it.`);
+    }
+
+    try {
+      const sessionHeaders = buildSessionHeaders(role, sessionVariables);
+      const schema = await getIntrospectionSchema(getSessionRole(sessionHeaders));
+      const { maxRows, maxBytes } = this.exportConfig;
+
+      const rows: Array<Record<string, unknown>> = [];
+      let pages = 0;
+      const addPage = (pageRows: Array<Record<string, unknown>>) => {
+        pages++;
+        if (rows.length + pageRows.length > maxRows) {
+          throw new ExportLimitError(`Export refused: the result has more than ${maxRows} rows, the server's export limit. Narrow it down with a filter.`);
+        }
+        rows.push(...pageRows.map(row => flattenRow(row)));
+      };
+
+      if (tableName) {
+        const { where, columns, orderBy } = input;
+        const { keys } = resolveKeysetKeys(schema, tableName, orderBy);
+        let after: unknown[] | undefined;
+        for (;;) {
+          const page = await fetchKeysetPage(schema, makeGqlRequest, sessionHeaders, {
+            tableName, columns, keys, direction: 'asc', where, after, pageSize,
+          });
+          addPage(page.rows);
+          if (!page.hasMore || !page.lastKey) {
+            break;
+          }
+          after = page.lastKey;
+        }
+      } else {
+        const analysis = analyzeDocument(query!, schema);
+        if (!analysis.document) {
+          return validationErrorResult(analysis.errors);
+        }
+        if (analysis.operationTypes.length !== 1 || analysis.operationTypes[0] !== OperationTypeNode.QUERY) {
+          throw new Error("The document must contain exactly one query operation.");
+        }
+        if (analysis.errors.length > 0) {
+          return validationErrorResult(analysis.errors);
+        }
+        const rootFields = getRootFields(analysis.document, OperationTypeNode.QUERY);
+        if (rootFields.length !== 1) {
+          throw new Error(`The query must select exactly one root field to export, but it selects ${rootFields.length}.`);
+        }
+        const resultKey = rootFields[0].alias?.value ?? rootFields[0].name.value;
+
+        const operation = analysis.document.definitions.find(d => d.kind === Kind.OPERATION_DEFINITION);
+        const variableNames = operation?.kind === Kind.OPERATION_DEFINITION
+          ? (operation.variableDefinitions || []).map(v => v.variable.name.value)
+          : [];
+        const paged = variableNames.includes('limit') && variableNames.includes('offset');
+
+        for (let offset = 0; ; offset += pageSize) {
+          const pageVariables = paged ? { ...input.variables, limit: pageSize, offset } : input.variables;
+          const result = await makeGqlRequest(query!, pageVariables || {}, sessionHeaders);
+          const data = result?.[resultKey];
+          const pageRows = Array.isArray(data) ? data : data ? [data] : [];
+          addPage(pageRows);
+          if (!paged || pageRows.length < pageSize) {
+            break;
+          }
+        }
+      }
+
+      const columns = collectColumns(rows);
+      const lines = serializeRows(rows, columns, format);
+      const bytes = lines.reduce((total, line) => total + Buffer.byteLength(line), 0);
+      if (bytes > maxBytes) {
+        throw new ExportLimitError(`Export refused: the file would be ${bytes} bytes, over the server's export limit of ${maxBytes} bytes. Select fewer columns or add a filter.`);
+      }
+
+      // Write to a temporary file first so a failed export never leaves a truncated file behind.
+      await mkdir(dirname(filePath), { recursive: true });
+      const partialPath = `${filePath}.partial-${randomBytes(4).toString('hex')}`;
+      try {
+        await writeFile(partialPath, lines.join(''), 'utf8');
+        await rename(partialPath, filePath);
+      } catch (error) {
+        await unlink(partialPath).catch(() => undefined);
+        throw error;
+      }
+
+      logger.info(`Tool 'export_query' wrote ${rows.length} rows (${bytes} bytes) to ${filePath}`);
+      const summary = { path: filePath, format, rowCount: rows.length, columns, bytes, pages };
+      return { content: [{ type: "text" as const, text: JSON.stringify(summary, null, 2) }] };
+    } catch (error: any) {
+      if (error instanceof ExportLimitError) {
+        logger.warn(`Tool 'export_query' refused an export: ${error.message}`);
+      } else {
+        logger.error(`Tool 'export_query' failed: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /** Resolves `path` inside the export directory and rejects anything that escapes it. */
+  private resolveExportPath(path: string): string {
+    const directory = resolve(this.exportConfig.directory);
+    const filePath = resolve(directory, path);
+    const relativePath = relative(directory, filePath);
+    if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      throw new Error(`Export path '${path}' must be a file inside the export directory (${directory}).`);
+    }
+    return filePath;
+  }
+}
@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { gql } from 'graphql-request';
-import { IServerTool, MakeGqlRequest } from "../types/IServerTool.js";
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { logger } from "../logger.js";
 
 export class HealthCheckTool implements IServerTool {
   name = "health_check";
@@ -9,6 +11,7 @@ Checks if the configured Hasura GraphQL endpoint is reachable and responsive.
 
 Parameters:
   - healthEndpointUrl: A specific HTTP health check URL to test (optional)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
 
 Returns:
   - Success message with endpoint status and response details
@@ -18,36 +21,35 @@ Note: If no healthEndpointUrl is provided, performs a simple GraphQL introspecti
 query (__typename) against the configured Hasura endpoint to verify connectivity.
   `.trim();
   inputSchema = z.object({
-    healthEndpointUrl: z.string().url().optional().describe("Optional. A specific HTTP health check URL...")
+    healthEndpointUrl: z.string().url().optional().describe("Optional. A specific HTTP health check URL..."),
+    ...endpointInputShape,
   });
 
-  constructor(
-    private makeGqlRequest: MakeGqlRequest,
-    private hasuraEndpoint: string
-  ) {
+  constructor(private resolveEndpoint: ResolveEndpoint) {
     this.execute = this.execute.bind(this);
   }
 
   async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
-    const { healthEndpointUrl } = input;
-    console.log(`[INFO] Executing tool 'health_check'...`);
+    const { healthEndpointUrl, endpoint } = input;
+    logger.info(`Executing tool 'health_check'...`);
+    const { makeGqlRequest, url } = this.resolveEndpoint(endpoint);
 
     try {
       let resultText = "";
       if (healthEndpointUrl) {
-        console.log(`[DEBUG] Performing HTTP GET to: ${healthEndpointUrl}`);
+        logger.debug(`Performing HTTP GET to: ${healthEndpointUrl}`);
         const response = await fetch(healthEndpointUrl, { method: 'GET' });
         resultText = `Health endpoint ${healthEndpointUrl} status: ${response.status} ${response.statusText}`;
         if (!response.ok) throw new Error(resultText);
       } else {
-        console.log(`[DEBUG] Performing GraphQL query { __typename } to: ${this.hasuraEndpoint}`);
+        logger.debug(`Performing GraphQL query { __typename } to: ${url}`);
         const query = gql`query HealthCheck { __typename }`;
-        const result = await this.makeGqlRequest(query);
-        resultText = `GraphQL endpoint ${this.hasuraEndpoint} is responsive. Result: ${JSON.stringify(result)}`;
+        const result = await makeGqlRequest(query);
+        resultText = `GraphQL endpoint ${url} is responsive. Result: ${JSON.stringify(result)}`;
       }
       return { content: [{ type: "text" as const, text: `Health check successful. ${resultText}` }] };
     } catch (error: any) {
-      console.error(`[ERROR] Tool 'health_check' failed: ${error.message}`);
+      logger.error(`Tool 'health_check' failed: ${error.message}`);
       return { content: [{ type: "text" as const, text: `Health check failed: ${error.message}` }], isError: false };
     }
   }
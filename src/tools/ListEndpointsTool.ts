@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { IServerTool, HasuraEndpoint } from "../types/IServerTool.js";
+import { logger } from "../logger.js";
+
+export class ListEndpointsTool implements IServerTool {
+  name = "list_endpoints";
+  description = `
+Lists the Hasura endpoints this server is configured to talk to.
+
+Parameters:
+  - None
+
+Returns:
+  - endpoints: Array of endpoint objects with:
+    - name: Endpoint name, pass it as the 'endpoint' argument of other tools
+    - url: GraphQL endpoint URL
+    - isDefault: True for the endpoint used when 'endpoint' is omitted
+    - authMode: How the server authenticates (admin-secret, bearer-token or none)
+    - defaultRole: Role sent as x-hasura-role when a tool call does not set one (if configured)
+
+Note: Secrets and header values are never included in the output.
+  `.trim();
+  inputSchema = z.object({});
+
+  constructor(private endpoints: HasuraEndpoint[]) {
+    this.execute = this.execute.bind(this);
+  }
+
+  async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
+    logger.info(`Executing tool 'list_endpoints'`);
+
+    const result = {
+      endpoints: this.endpoints.map((e, i) => ({
+        name: e.name,
+        url: e.url,
+        isDefault: i === 0,
+        authMode: e.authMode,
+        defaultRole: e.defaultRole || null,
+      })),
+    };
+
+    return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+  }
+}
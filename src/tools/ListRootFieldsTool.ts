@@ -1,6 +1,8 @@
 import { z } from "zod";
-import { IServerTool } from "../types/IServerTool.js";
-import { IntrospectionSchema, IntrospectionField, IntrospectionObjectType } from 'graphql';
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { IntrospectionField, IntrospectionObjectType } from 'graphql';
+import { logger } from "../logger.js";
 
 export class ListRootFieldsTool implements IServerTool {
   name = "list_root_fields";
@@ -12,6 +14,7 @@ Parameters:
   - filter: Case-insensitive text search on field names/descriptions (optional)
   - limit: Maximum number of fields to return (default: 10)
   - offset: Number of fields to skip for pagination (default: 0)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
 
 Returns:
   - fields: Array of field objects with name and description
@@ -30,19 +33,21 @@ Query/Mutation/Subscription types, which may require additional support.
     fieldType: z.enum(["QUERY", "MUTATION", "SUBSCRIPTION"]).optional().describe("Optional. Filter by field type: QUERY, MUTATION, or SUBSCRIPTION."),
     filter: z.string().optional().describe("Optional. Case-insensitive search filter for field names and descriptions."),
     limit: z.number().int().positive().optional().default(10).describe("Optional. Maximum number of fields to return. Default: 10."),
-    offset: z.number().int().min(0).optional().default(0).describe("Optional. Number of fields to skip for pagination. Default: 0.")
+    offset: z.number().int().min(0).optional().default(0).describe("Optional. Number of fields to skip for pagination. Default: 0."),
+    ...endpointInputShape,
   });
 
-  constructor(private getIntrospectionSchema: () => Promise<IntrospectionSchema>) {
+  constructor(private resolveEndpoint: ResolveEndpoint) {
     this.execute = this.execute.bind(this);
   }
 
   async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
-    const { fieldType, filter, limit = 10, offset = 0 } = input;
-    console.log(`[INFO] Executing tool 'list_root_fields', filtering by: ${fieldType || 'ALL'}, filter: ${filter || 'NONE'}, limit: ${limit}, offset: ${offset}`);
+    const { fieldType, filter, limit = 10, offset = 0, endpoint } = input;
+    logger.info(`Executing tool 'list_root_fields', filtering by: ${fieldType || 'ALL'}, filter: ${filter || 'NONE'}, limit: ${limit}, offset: ${offset}`);
+    const { getIntrospectionSchema } = this.resolveEndpoint(endpoint);
 
     try {
-      const schema = await this.getIntrospectionSchema();
+      const schema = await getIntrospectionSchema();
       let fields: IntrospectionField[] = [];
       const supportedTypes = new Set<string>();
       const unsupportedTypes: string[] = [];
@@ -120,7 +125,7 @@ Query/Mutation/Subscription types, which may require additional support.
 
       return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
     } catch (error: any) {
-      console.error(`[ERROR] Tool 'list_root_fields' failed: ${error.message}`);
+      logger.error(`Tool 'list_root_fields' failed: ${error.message}`);
       throw error;
     }
   }
@@ -1,7 +1,10 @@
 import { z } from "zod";
 import { gql } from 'graphql-request';
-import { IServerTool, MakeGqlRequest } from "../types/IServerTool.js";
-import { IntrospectionSchema } from 'graphql';
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { isTableRootFieldName } from "../utils/tableSummary.js";
+import { HasuraMetadata } from "../utils/hasuraMetadata.js";
+import { logger } from "../logger.js";
 
 export class ListTablesTool implements IServerTool {
   name = "list_tables";
@@ -13,36 +16,49 @@ Parameters:
   - filter: Case-insensitive text search on table names/descriptions (optional)
   - limit: Maximum number of tables to return per schema (default: 10)
   - offset: Number of tables to skip for pagination (default: 0)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
 
 Returns:
   - schema: Schema name
-  - tables: Array of table objects with name and description
+  - tables: Array of table objects with name and description (plus source and sqlName
+    when the metadata API is used)
   - totalCount: Total tables in schema before filtering
   - filteredCount: Tables after filter, before pagination
   - returnedCount: Actual number of tables returned
   - offset: Current offset value
   - limit: Current limit value
+
+Note: With an admin secret, tables and their schemas come from the Hasura metadata API
+(export_metadata). Otherwise tables are guessed from the query root fields and the schema
+from 'schema:' hints in field descriptions, defaulting to 'public'.
   `.trim();
   inputSchema = z.object({
     schemaName: z.string().optional().describe("Optional. The database schema name to filter results. If omitted, returns tables from all schemas."),
     filter: z.string().optional().describe("Optional. Case-insensitive search filter for table names and descriptions."),
     limit: z.number().int().positive().optional().default(10).describe("Optional. Maximum number of tables to return per schema. Default: 10."),
-    offset: z.number().int().min(0).optional().default(0).describe("Optional. Number of tables to skip for pagination. Default: 0.")
+    offset: z.number().int().min(0).optional().default(0).describe("Optional. Number of tables to skip for pagination. Default: 0."),
+    ...endpointInputShape,
   });
+  cacheResults = true;
 
   constructor(
-    private makeGqlRequest: MakeGqlRequest,
-    private getIntrospectionSchema: () => Promise<IntrospectionSchema>
+    private resolveEndpoint: ResolveEndpoint
   ) {
     this.execute = this.execute.bind(this);
   }
 
   async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
-    const { schemaName, filter, limit = 10, offset = 0 } = input;
-    console.log(`[INFO] Executing tool 'list_tables' for schema: ${schemaName || 'ALL'}, filter: ${filter || 'NONE'}, limit: ${limit}, offset: ${offset}`);
+    const { schemaName, filter, limit = 10, offset = 0, endpoint } = input;
+    logger.info(`Executing tool 'list_tables' for schema: ${schemaName || 'ALL'}, filter: ${filter || 'NONE'}, limit: ${limit}, offset: ${offset}`);
+    const { name: endpointName, makeGqlRequest, getMetadata } = this.resolveEndpoint(endpoint);
 
     try {
-      const schema = await this.getIntrospectionSchema();
+      let metadata: HasuraMetadata | null = null;
+      try {
+        metadata = await getMetadata();
+      } catch (error: any) {
+        logger.warn(`[${endpointName}] Tool 'list_tables' falling back to introspection heuristics: ${error.message}`);
+      }
 
       const query = gql`
         query GetTablesWithDescriptions {
@@ -59,19 +75,34 @@ Returns:
         }
       `;
 
-      const result = await this.makeGqlRequest(query);
+      const result = await makeGqlRequest(query);
 
-      const tablesData: Record<string, Array<{name: string, description: string | null}>> = {};
+      const tablesData: Record<string, Array<{name: string, description: string | null, source?: string, sqlName?: string}>> = {};
 
-      if (result.__type && result.__type.fields) {
+      if (metadata) {
+        // Tracked tables from the metadata API: real schema names, and the select root field as the name.
+        const descriptions = new Map<string, string | null>(
+          (result.__type?.fields || []).map((f: any) => [f.name, f.description])
+        );
+        for (const table of metadata.tables) {
+          if (schemaName && table.schema !== schemaName) {
+            continue;
+          }
+          if (!tablesData[table.schema]) {
+            tablesData[table.schema] = [];
+          }
+          tablesData[table.schema].push({
+            name: table.rootFields.select,
+            description: descriptions.get(table.rootFields.select) ?? null,
+            source: table.source,
+            sqlName: `${table.schema}.${table.name}`,
+          });
+        }
+      } else if (result.__type && result.__type.fields) {
         const fieldEntries = result.__type.fields;
 
         for (const field of fieldEntries) {
-          if (field.name.includes('_aggregate') ||
-              field.name.includes('_by_pk') ||
-              field.name.includes('_stream') ||
-              field.name.includes('_mutation') ||
-              field.name.startsWith('__')) {
+          if (!isTableRootFieldName(field.name)) {
             continue;
           }
 
@@ -134,7 +165,7 @@ Returns:
 
       return { content: [{ type: "text" as const, text: JSON.stringify(formattedOutput, null, 2) }] };
     } catch (error: any) {
-      console.error(`[ERROR] Tool 'list_tables' failed: ${error.message}`);
+      logger.error(`Tool 'list_tables' failed: ${error.message}`);
       throw error;
     }
   }
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { sessionInputShape, buildSessionHeaders, getSessionRole } from "../utils/hasuraSession.js";
+import { decodeCursor, encodeCursor, fetchKeysetPage, hashFilter, resolveKeysetKeys } from "../utils/keysetPagination.js";
+import { ResponseFormat, ResponseLimits, responseInputShape, shapeValue } from "../utils/responseFormatter.js";
+import { logger } from "../logger.js";
+
+const MAX_PAGE_SIZE = 1000;
+
+export class PaginateTableTool implements IServerTool {
+  name = "paginate_table";
+  description = `
+Pages through a table with keyset (cursor) pagination, which stays fast and stable on large tables
+where limit/offset does not.
+
+Parameters:
+  - tableName: Query root field of the table, as listed by list_tables
+  - columns: Columns to return (default: all scalar and enum columns)
+  - orderBy: Column to sort by (default: the primary key); the primary key is always added
+    as a tie-breaker so the order is stable. Tables without a primary key need a unique,
+    non-null orderBy column
+  - direction: 'asc' (default) or 'desc'
+  - where: Hasura filter object applied to every page (optional)
+  - pageSize: Rows per page (default: 50, max: 1000)
+  - cursor: nextCursor from the previous page; omit for the first page
+  - role: Hasura role to run as, e.g. 'user' (optional, requires an admin secret)
+  - sessionVariables: Map of x-hasura-* session variables for the role (optional)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
+
+Returns:
+  - rows: The page of rows (sort columns are always included); fewer than pageSize when the
+    page does not fit the response budget, in which case nextCursor continues after the last row shown
+  - hasMore: True if there are more rows after this page
+  - nextCursor: Opaque cursor for the next page (null when hasMore is false)
+  - orderBy: The sort keys and direction actually used
+  - stableOrder: False if the table has no primary key, so rows that tie on orderBy may be skipped
+
+Note: Pass the same tableName, orderBy, direction and where with the cursor; a cursor used
+with different ones is rejected. NULLs in the sort column come after all other values.
+  `.trim();
+  inputSchema = z.object({
+    tableName: z.string().describe("The query root field of the table, e.g. 'users'."),
+    columns: z.array(z.string()).optional().describe("Optional. Columns to return. Default: all scalar and enum columns."),
+    orderBy: z.string().optional().describe("Optional. Column to sort by. Default: the primary key."),
+    direction: z.enum(['asc', 'desc']).optional().default('asc').describe("Optional. Sort direction. Default: 'asc'."),
+    where: z.record(z.unknown()).optional().describe("Optional. A Hasura 'where' filter object applied to every page."),
+    pageSize: z.number().int().positive().max(MAX_PAGE_SIZE).optional().default(50).describe("Optional. Rows per page. Default: 50."),
+    cursor: z.string().optional().describe("Optional. The nextCursor returned by the previous page."),
+    ...sessionInputShape,
+    ...responseInputShape,
+    ...endpointInputShape,
+  });
+
+  constructor(private resolveEndpoint: ResolveEndpoint, private responseLimits: ResponseLimits, private defaultFormat: ResponseFormat) {
+    this.execute = this.execute.bind(this);
+  }
+
+  async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
+    const { tableName, columns, orderBy, direction = 'asc', where, pageSize = 50, cursor, role, sessionVariables, responseFormat, endpoint } = input;
+    logger.info(`Executing tool 'paginate_table' for table: ${tableName}, orderBy: ${orderBy || 'primary key'} ${direction}, pageSize: ${pageSize}${cursor ? ' (next page)' : ''}`);
+    const { makeGqlRequest, getIntrospectionSchema } = this.resolveEndpoint(endpoint);
+
+    try {
+      const sessionHeaders = buildSessionHeaders(role, sessionVariables);
+      const schema = await getIntrospectionSchema(getSessionRole(sessionHeaders));
+
+      const { keys, primaryKey } = resolveKeysetKeys(schema, tableName, orderBy);
+      const filterHash = hashFilter(where);
+
+      let after: unknown[] | undefined;
+      if (cursor) {
+        const decoded = decodeCursor(cursor);
+        if (decoded.table !== tableName || decoded.direction !== direction || decoded.keys.join(',') !== keys.join(',') || decoded.filterHash !== filterHash) {
+          throw new Error("This cursor was issued for a different table, orderBy, direction or where filter. Repeat the original arguments with the cursor, or omit the cursor to start over.");
+        }
+        after = decoded.after;
+      }
+
+      const page = await fetchKeysetPage(schema, makeGqlRequest, sessionHeaders, {
+        tableName, columns, keys, direction, where, after, pageSize,
+      });
+
+      // The response budget would otherwise cut the rows array, and a cursor past the last
+      // fetched row would skip every row that was cut. Drop rows from the end instead, until
+      // the page fits, and continue after the last row that is shown.
+      const buildResponse = (shown: number) => {
+        const rows = page.rows.slice(0, shown);
+        const lastRow = rows[rows.length - 1];
+        const hasMore = page.hasMore || shown < page.rows.length;
+        return {
+          rows,
+          hasMore,
+          nextCursor: hasMore && lastRow
+            ? encodeCursor({ table: tableName, keys, direction, filterHash, after: keys.map(k => lastRow[k] ?? null) })
+            : null,
+          orderBy: keys.map(column => ({ column, direction })),
+          stableOrder: primaryKey.length > 0,
+        };
+      };
+      let response = buildResponse(page.rows.length);
+      for (;;) {
+        const rowsCut = shapeValue(response, this.responseLimits, responseFormat ?? this.defaultFormat)
+          .truncations.find(t => t.path === '$.rows');
+        if (!rowsCut || response.rows.length === 1) {
+          break;
+        }
+        response = buildResponse(Math.max(1, rowsCut.keptLength));
+      }
+      if (response.rows.length < page.rows.length) {
+        logger.info(`Page of '${tableName}' cut from ${page.rows.length} to ${response.rows.length} rows to fit the response budget.`);
+      }
+      return { content: [{ type: "text" as const, text: JSON.stringify(response, null, 2) }] };
+    } catch (error: any) {
+      logger.error(`Tool 'paginate_table' failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -1,7 +1,10 @@
 import { z } from "zod";
 import { gql } from 'graphql-request';
-import { IServerTool, MakeGqlRequest } from "../types/IServerTool.js";
-import { IntrospectionSchema, IntrospectionObjectType } from 'graphql';
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { sessionInputShape, buildSessionHeaders, getSessionRole } from "../utils/hasuraSession.js";
+import { findObjectType, getScalarFieldNames } from "../utils/introspection.js";
+import { logger } from "../logger.js";
 
 export class PreviewTableDataTool implements IServerTool {
   name = "preview_table_data";
@@ -12,6 +15,9 @@ Parameters:
   - tableName: The exact name of the table to preview
   - limit: Maximum number of rows to fetch (default: 5)
   - offset: Number of rows to skip for pagination (default: 0)
+  - role: Hasura role to run as, e.g. 'user' (optional, requires an admin secret)
+  - sessionVariables: Map of x-hasura-* session variables for the role (optional)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
 
 Returns:
   - data: JSON object with table data containing scalar/enum fields only
@@ -27,43 +33,41 @@ in the preview. Use GraphQL queries directly for complex nested data.
     tableName: z.string().describe("The exact name of the table..."),
     limit: z.number().int().positive().optional().default(5).describe("Optional. Maximum number of rows..."),
     offset: z.number().int().min(0).optional().default(0).describe("Optional. Number of rows to skip for pagination. Default: 0."),
+    ...sessionInputShape,
+    ...endpointInputShape,
   });
+  cacheResults = true;
 
   constructor(
-    private makeGqlRequest: MakeGqlRequest,
-    private getIntrospectionSchema: () => Promise<IntrospectionSchema>
+    private resolveEndpoint: ResolveEndpoint
   ) {
     this.execute = this.execute.bind(this);
   }
 
   async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
-    const { tableName, limit = 5, offset = 0 } = input;
-    console.log(`[INFO] Executing tool 'preview_table_data' for table: ${tableName}, limit: ${limit}, offset: ${offset}`);
+    const { tableName, limit = 5, offset = 0, role, sessionVariables, endpoint } = input;
+    logger.info(`Executing tool 'preview_table_data' for table: ${tableName}, limit: ${limit}, offset: ${offset}${role ? `, role: ${role}` : ''}`);
+    const { makeGqlRequest, getIntrospectionSchema } = this.resolveEndpoint(endpoint);
 
     try {
-      const schema = await this.getIntrospectionSchema();
-      const tableType = schema.types.find(t => t.name === tableName && t.kind === 'OBJECT') as IntrospectionObjectType | undefined;
+      const sessionHeaders = buildSessionHeaders(role, sessionVariables);
+      const schema = await getIntrospectionSchema(getSessionRole(sessionHeaders));
+      const tableType = findObjectType(schema, tableName);
       if (!tableType) {
         throw new Error(`Table (Object type) '${tableName}' not found in schema.`);
       }
 
-      const scalarFields = tableType.fields
-        ?.filter(f => {
-          let currentType = f.type;
-          while (currentType.kind === 'NON_NULL' || currentType.kind === 'LIST') currentType = currentType.ofType;
-          return currentType.kind === 'SCALAR' || currentType.kind === 'ENUM';
-        })
-        .map(f => f.name) || [];
+      const scalarFields = getScalarFieldNames(tableType);
 
       if (scalarFields.length === 0) {
-        console.warn(`[WARN] No scalar fields found for table ${tableName}...`);
+        logger.warn(`No scalar fields found for table ${tableName}...`);
         scalarFields.push('__typename');
       }
 
       const fieldsString = scalarFields.join('\n          ');
       const query = gql` query PreviewData($limit: Int!, $offset: Int!) { ${tableName}(limit: $limit, offset: $offset) { ${fieldsString} } }`;
       const variables = { limit, offset };
-      const result = await this.makeGqlRequest(query, variables);
+      const result = await makeGqlRequest(query, variables, sessionHeaders);
 
       // Extract the actual data and add pagination metadata
       const tableData = result[tableName] || [];
@@ -76,7 +80,7 @@ in the preview. Use GraphQL queries directly for complex nested data.
 
       return { content: [{ type: "text" as const, text: JSON.stringify(response, null, 2) }] };
     } catch (error: any) {
-      console.error(`[ERROR] Tool 'preview_table_data' failed: ${error.message}`);
+      logger.error(`Tool 'preview_table_data' failed: ${error.message}`);
       throw error;
     }
   }
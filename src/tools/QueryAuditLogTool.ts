@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { IServerTool } from "../types/IServerTool.js";
+import { AuditLog } from "../auditLog.js";
+import { logger } from "../logger.js";
+
+const MAX_LIMIT = 500;
+
+export class QueryAuditLogTool implements IServerTool {
+  name = "query_audit_log";
+  description = `
+Searches the server's audit log of tool calls, newest first.
+
+Parameters:
+  - tool: Only calls of this tool, e.g. 'run_graphql_mutation' (optional)
+  - endpoint: Only calls against this endpoint (optional)
+  - role: Only calls made as this Hasura role (optional)
+  - status: 'ok' or 'error' (optional)
+  - since: ISO timestamp; only calls at or after it, e.g. '2024-05-01T00:00:00Z' (optional)
+  - operationContains: Case-insensitive text to find in the GraphQL document (optional)
+  - limit: Maximum number of entries (default: 50, max: 500)
+
+Returns:
+  - entries: Matching entries with timestamp, tool, client, sessionId, endpoint, role,
+    operation, variablesHash, arguments, durationMs, status, rowCount and error
+  - count: Number of entries returned
+
+Note: Variables are never logged, only a hash of them, and secrets in tool arguments are
+redacted. Entries older than the log's rotated files are gone.
+  `.trim();
+  inputSchema = z.object({
+    tool: z.string().optional().describe("Optional. Only calls of this tool, e.g. 'run_graphql_mutation'."),
+    endpoint: z.string().optional().describe("Optional. Only calls against this endpoint name."),
+    role: z.string().optional().describe("Optional. Only calls made as this Hasura role."),
+    status: z.enum(['ok', 'error']).optional().describe("Optional. Only successful or only failed calls."),
+    since: z.string().datetime({ offset: true }).optional().describe("Optional. ISO timestamp; only calls at or after it."),
+    operationContains: z.string().optional().describe("Optional. Case-insensitive text to find in the GraphQL document, e.g. 'delete_users'."),
+    limit: z.number().int().positive().max(MAX_LIMIT).optional().default(50).describe("Optional. Maximum number of entries. Default: 50."),
+  });
+
+  constructor(private auditLog: AuditLog) {
+    this.execute = this.execute.bind(this);
+  }
+
+  async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
+    const { limit = 50, since, ...filters } = input;
+    logger.info(`Executing tool 'query_audit_log'${filters.tool ? ` for tool: ${filters.tool}` : ''}`);
+
+    if (!this.auditLog.enabled) {
+      throw new Error("The audit log is disabled in the server configuration (audit.enabled).");
+    }
+    try {
+      // Entries are stored with UTC timestamps, so compare against the same form.
+      const entries = await this.auditLog.search({ ...filters, since: since ? new Date(since).toISOString() : undefined, limit });
+      return { content: [{ type: "text" as const, text: JSON.stringify({ entries, count: entries.length }, null, 2) }] };
+    } catch (error: any) {
+      logger.error(`Tool 'query_audit_log' failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
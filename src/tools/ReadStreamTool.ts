@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { sessionInputShape, buildSessionHeaders, getSessionRole } from "../utils/hasuraSession.js";
+import { collectSubscription } from "../utils/graphqlSubscription.js";
+import { buildStreamSubscription } from "../utils/streamCursor.js";
+import { logger } from "../logger.js";
+
+const MAX_BATCH_SIZE = 1000;
+const MAX_ROWS = 5000;
+const MAX_WAIT_MS = 30_000;
+/** Hard limit on how long one call keeps the stream open. */
+const MAX_READ_MS = 60_000;
+
+export class ReadStreamTool implements IServerTool {
+  name = "read_stream";
+  description = `
+Reads new rows from a table with a Hasura streaming subscription (<table>_stream), starting after
+a cursor value, and returns them with the cursor to continue from. Use it to tail append-only
+tables such as events or audit logs across calls.
+
+Parameters:
+  - tableName: Table to read, e.g. 'events' (its 'events_stream' subscription field must exist)
+  - cursorColumn: Column the stream is ordered by, e.g. 'id' or 'created_at'; it should be unique
+    and only ever increase
+  - startValue: Read rows after this cursor value, e.g. 0 or '2024-01-01T00:00:00Z'
+  - ordering: 'asc' (default) or 'desc'
+  - columns: Columns to return (default: all scalar and enum columns)
+  - where: Hasura filter object applied to the stream (optional)
+  - batchSize: Rows per streamed batch (default: 100, max: 1000)
+  - maxRows: Stop after this many rows (default: 500, max: 5000)
+  - waitMs: Stop once no new batch arrives for this long (default: 1000, max: 30000)
+  - role: Hasura role to run as, e.g. 'user' (optional, requires an admin secret)
+  - sessionVariables: Map of x-hasura-* session variables for the role (optional)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
+
+Returns:
+  - rows: The rows read, in cursor order
+  - rowCount / batches: Number of rows and streamed batches
+  - nextCursor: { cursorColumn, startValue, ordering } to pass to the next call
+  - caughtUp: True when the stream went quiet, i.e. there were no more rows for now
+
+Note: Hasura returns rows strictly after startValue, so the next call starts right after the
+last row returned here. A call never keeps the stream open longer than 60 seconds.
+  `.trim();
+  inputSchema = z.object({
+    tableName: z.string().describe("The table to read, e.g. 'events'."),
+    cursorColumn: z.string().describe("The column the stream is ordered by, e.g. 'id' or 'created_at'."),
+    startValue: z.union([z.string(), z.number()]).describe("Read rows after this value of cursorColumn, e.g. 0 or '2024-01-01T00:00:00Z'."),
+    ordering: z.enum(['asc', 'desc']).optional().default('asc').describe("Optional. Cursor direction. Default: 'asc'."),
+    columns: z.array(z.string()).optional().describe("Optional. Columns to return. Default: all scalar and enum columns."),
+    where: z.record(z.unknown()).optional().describe("Optional. A Hasura 'where' filter object applied to the stream."),
+    batchSize: z.number().int().positive().max(MAX_BATCH_SIZE).optional().default(100).describe("Optional. Rows per streamed batch. Default: 100."),
+    maxRows: z.number().int().positive().max(MAX_ROWS).optional().default(500).describe("Optional. Stop after this many rows. Default: 500."),
+    waitMs: z.number().int().positive().max(MAX_WAIT_MS).optional().default(1000).describe("Optional. Stop once no new batch arrives for this many milliseconds. Default: 1000."),
+    ...sessionInputShape,
+    ...endpointInputShape,
+  });
+
+  constructor(private resolveEndpoint: ResolveEndpoint) {
+    this.execute = this.execute.bind(this);
+  }
+
+  async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
+    const { tableName, cursorColumn, startValue, ordering = 'asc', columns, where, batchSize = 100, maxRows = 500, waitMs = 1000, role, sessionVariables, endpoint } = input;
+    logger.info(`Executing tool 'read_stream' for table: ${tableName}, after ${cursorColumn} = ${JSON.stringify(startValue)} (${ordering})${role ? ` as role '${role}'` : ''}`);
+    const hasuraEndpoint = this.resolveEndpoint(endpoint);
+
+    try {
+      const sessionHeaders = buildSessionHeaders(role, sessionVariables);
+      const schema = await hasuraEndpoint.getIntrospectionSchema(getSessionRole(sessionHeaders));
+      const { query, variables } = buildStreamSubscription(schema, tableName, { columns, cursorColumn, startValue, ordering, where, batchSize });
+      const streamField = `${tableName}_stream`;
+
+      const rows: Array<Record<string, unknown>> = [];
+      let batches = 0;
+      const stopReason = await collectSubscription(
+        sink => hasuraEndpoint.subscribe(query, variables, sessionHeaders, sink),
+        data => {
+          const batch = data[streamField];
+          if (Array.isArray(batch) && batch.length > 0) {
+            batches++;
+            rows.push(...batch);
+          }
+          return rows.length >= maxRows;
+        },
+        { maxDurationMs: MAX_READ_MS, idleMs: waitMs }
+      );
+
+      // A batch may overshoot maxRows; the cursor then points at the last row kept.
+      const kept = rows.slice(0, maxRows);
+      const lastRow = kept[kept.length - 1];
+      const result = {
+        rows: kept,
+        rowCount: kept.length,
+        batches,
+        nextCursor: { cursorColumn, startValue: lastRow ? lastRow[cursorColumn] : startValue, ordering },
+        caughtUp: stopReason === 'idle',
+      };
+      return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+    } catch (error: any) {
+      logger.error(`Tool 'read_stream' failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
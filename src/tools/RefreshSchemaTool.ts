@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { logger } from "../logger.js";
+
+export class RefreshSchemaTool implements IServerTool {
+  name = "refresh_schema";
+  description = `
+Re-introspects the Hasura endpoint and replaces the cached schema, e.g. after a migration or metadata reload.
+
+Parameters:
+  - includeChanges: Include the full list of changes, not just the summary (default: true)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
+
+Returns:
+  - endpoint: Endpoint that was refreshed
+  - refreshedAt: Timestamp of the refresh
+  - changed: True if the schema differs from the previously cached one
+  - summary: Counts of added, removed, changed and breaking changes
+  - changes: Array of changes (if includeChanges) with:
+    - change: added, removed or changed
+    - target: type, field, argument, inputField or enumValue
+    - path: e.g. 'users', 'users.email', 'users.email(path)'
+    - breaking: True if existing queries may fail because of this change
+    - detail: Human-readable description
+
+Note: Cached per-role schemas are dropped and re-fetched on next use. Clients subscribed to
+the 'hasura:/schema' resource are notified when the default endpoint's schema changes.
+  `.trim();
+  inputSchema = z.object({
+    includeChanges: z.boolean().optional().default(true).describe("Optional. Include the full list of changes. Default: true."),
+    ...endpointInputShape,
+  });
+
+  constructor(private resolveEndpoint: ResolveEndpoint) {
+    this.execute = this.execute.bind(this);
+  }
+
+  async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
+    const { includeChanges = true, endpoint } = input;
+    logger.info(`Executing tool 'refresh_schema'${endpoint ? ` for endpoint: ${endpoint}` : ''}`);
+    const { refreshIntrospectionSchema } = this.resolveEndpoint(endpoint);
+
+    try {
+      const { endpoint: endpointName, refreshedAt, diff } = await refreshIntrospectionSchema();
+      const result = {
+        endpoint: endpointName,
+        refreshedAt,
+        changed: diff ? diff.changes.length > 0 : null,
+        summary: diff ? diff.summary : null,
+        ...(includeChanges && diff && { changes: diff.changes }),
+        ...(!diff && { note: "No schema was cached before this refresh, so there is nothing to compare against." }),
+      };
+      return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+    } catch (error: any) {
+      logger.error(`Tool 'refresh_schema' failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { buildRelationshipGraph, limitRelationshipGraph, toDot, toMermaid } from "../utils/relationshipGraph.js";
+import { logger } from "../logger.js";
+
+export class RelationshipGraphTool implements IServerTool {
+  name = "relationship_graph";
+  description = `
+Shows how tables connect: every object and array relationship between table types in the schema.
+Use it to plan joins (nested selections) across tables.
+
+Parameters:
+  - format: 'json' (default), 'mermaid' (ER diagram) or 'dot' (Graphviz)
+  - startTable: Only include tables reachable from this table (optional)
+  - depth: How many relationships to follow from startTable (default: 2)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
+
+Returns:
+  - json: { tables, relationships }, where each relationship has:
+    - from: Table type holding the relationship field
+    - to: Related table type
+    - field: Relationship field name, used as a nested selection on 'from'
+    - type: 'object' (single row) or 'array' (list of rows)
+  - mermaid / dot: The diagram source as plain text
+
+Note: Built from the cached introspection schema. Tables are the types returned by query root
+fields; *_aggregate fields are not included as relationships.
+  `.trim();
+  inputSchema = z.object({
+    format: z.enum(['json', 'mermaid', 'dot']).optional().default('json').describe("Optional. Output format. Default: 'json'."),
+    startTable: z.string().optional().describe("Optional. Table name to start from; only tables reachable from it are included."),
+    depth: z.number().int().min(1).max(10).optional().default(2).describe("Optional. Relationships to follow from startTable. Default: 2."),
+    ...endpointInputShape,
+  });
+
+  constructor(private resolveEndpoint: ResolveEndpoint) {
+    this.execute = this.execute.bind(this);
+  }
+
+  async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
+    const { format = 'json', startTable, depth = 2, endpoint } = input;
+    logger.info(`Executing tool 'relationship_graph' (format: ${format}${startTable ? `, start: ${startTable}, depth: ${depth}` : ''})`);
+    const { getIntrospectionSchema } = this.resolveEndpoint(endpoint);
+
+    try {
+      const schema = await getIntrospectionSchema();
+      let graph = buildRelationshipGraph(schema);
+      if (startTable) {
+        graph = limitRelationshipGraph(schema, graph, startTable, depth);
+      }
+
+      if (format === 'mermaid') {
+        return { content: [{ type: "text" as const, text: toMermaid(graph) }] };
+      }
+      if (format === 'dot') {
+        return { content: [{ type: "text" as const, text: toDot(graph) }] };
+      }
+      return { content: [{ type: "text" as const, text: JSON.stringify(graph, null, 2) }] };
+    } catch (error: any) {
+      logger.error(`Tool 'relationship_graph' failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
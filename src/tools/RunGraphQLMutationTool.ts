@@ -1,5 +1,15 @@
 import { z } from "zod";
-import { IServerTool, MakeGqlRequest } from "../types/IServerTool.js";
+import { randomUUID } from 'node:crypto';
+import { IntrospectionSchema, OperationTypeNode } from 'graphql';
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { analyzeDocument, getRootFieldNames, validationErrorResult } from "../utils/graphqlValidation.js";
+import { MutationAllowList } from "../utils/mutationAllowList.js";
+import { previewMutation } from "../utils/mutationPreview.js";
+import { fingerprintOperation } from "../utils/operationFingerprint.js";
+import { logger } from "../logger.js";
+
+const CONFIRMATION_TOKEN_TTL_MS = 5 * 60 * 1000;
 
 export class RunGraphQLMutationTool implements IServerTool {
   name = "run_graphql_mutation";
@@ -7,38 +17,128 @@ export class RunGraphQLMutationTool implements IServerTool {
 Executes a GraphQL mutation to insert, update, or delete data in the Hasura database.
 
 Parameters:
-  - mutation: The GraphQL mutation string (must start with 'mutation')
+  - mutation: The GraphQL mutation document (every operation must be a mutation)
   - variables: Object containing mutation variables (optional)
+  - dryRun: Set to true to preview the mutation instead of running it (optional)
+  - confirmationToken: Token from a previous dry run; runs exactly that mutation (optional)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
 
 Returns:
   - JSON result of the GraphQL mutation execution
+  - For a dry run: the root fields touched, the number of rows each update_*/delete_*
+    would affect (counted with the matching *_aggregate and the same 'where'), and a
+    single-use confirmationToken valid for 5 minutes
+  - If the mutation fails schema validation, a structured error list with locations and
+    "did you mean" suggestions is returned instead and nothing is sent to Hasura
+
+Note: This tool only accepts mutation operations. The document is parsed and queries or
+subscriptions are rejected. For read-only operations, use 'run_graphql_query'.
+If the server was started with a mutation allow-list, every mutation root field in the
+document must be on that list or the whole mutation is rejected.
 
-Note: This tool only accepts mutation operations. The mutation string must begin with
-the 'mutation' keyword. For read-only operations, use 'run_graphql_query'.
+Dry-run workflow: call with dryRun=true, check the affected row counts, then call again
+with the same mutation, the same variables and the returned confirmationToken. If the
+server requires confirmation, calls without a token always return the dry-run preview.
   `.trim();
   inputSchema = z.object({
     mutation: z.string().describe("The GraphQL mutation string."),
     variables: z.record(z.unknown()).optional().describe("Optional. An object containing variables..."),
+    dryRun: z.boolean().optional().describe("Optional. Preview affected rows and get a confirmation token instead of running the mutation."),
+    confirmationToken: z.string().optional().describe("Optional. Token returned by a dry run of this exact mutation and variables."),
+    ...endpointInputShape,
   });
 
-  constructor(private makeGqlRequest: MakeGqlRequest) {
+  private pendingConfirmations = new Map<string, { fingerprint: string; expiresAt: number }>();
+
+  constructor(
+    private resolveEndpoint: ResolveEndpoint,
+    private allowList?: MutationAllowList,
+    private requireConfirmation: boolean = false
+  ) {
     this.execute = this.execute.bind(this);
   }
 
   async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
-    console.log(`[INFO] Executing tool 'run_graphql_mutation'`);
-    const { mutation, variables } = input;
+    logger.info(`Executing tool 'run_graphql_mutation'`);
+    const { mutation, variables, dryRun = false, confirmationToken, endpoint } = input;
+    const { name: endpointName, makeGqlRequest, getIntrospectionSchema } = this.resolveEndpoint(endpoint);
+
+    let schema: IntrospectionSchema | null = null;
+    try {
+      schema = await getIntrospectionSchema();
+    } catch (error: any) {
+      logger.warn(`Tool 'run_graphql_mutation' could not load the schema, skipping validation: ${error.message}`);
+    }
+
+    const analysis = analyzeDocument(mutation, schema);
+    if (!analysis.document) {
+      return validationErrorResult(analysis.errors);
+    }
+    const nonMutationTypes = analysis.operationTypes.filter(t => t !== 'mutation');
+    if (analysis.operationTypes.length === 0 || nonMutationTypes.length > 0) {
+      throw new Error(`This tool only accepts mutations, but the document contains ${nonMutationTypes.length > 0 ? `a ${nonMutationTypes[0]}` : 'no'} operation. Use 'run_graphql_query' for read-only queries.`);
+    }
+    if (analysis.errors.length > 0) {
+      return validationErrorResult(analysis.errors);
+    }
+
+    if (this.allowList) {
+      const rejectedFields = getRootFieldNames(analysis.document, OperationTypeNode.MUTATION)
+        .filter(name => !this.allowList!.isAllowed(name));
+      if (rejectedFields.length > 0) {
+        logger.warn(`Tool 'run_graphql_mutation' rejected mutation fields not on the allow-list: ${rejectedFields.join(', ')}`);
+        throw new Error(`Mutation rejected: root field(s) ${rejectedFields.join(', ')} are not on the server's mutation allow-list (${this.allowList.entries.join(', ')}).`);
+      }
+    }
 
-    if (!mutation.trim().toLowerCase().startsWith('mutation')) {
-      throw new Error("The provided string does not appear to be a mutation...");
+    // Tokens are bound to the endpoint as well, so a dry run against staging cannot confirm prod.
+    const fingerprint = `${endpointName}:${fingerprintOperation(analysis.document, variables)}`;
+    if (confirmationToken) {
+      this.consumeConfirmationToken(confirmationToken, fingerprint);
+    } else if (dryRun || this.requireConfirmation) {
+      const fields = await previewMutation(analysis.document, variables, schema, makeGqlRequest);
+      const token = this.issueConfirmationToken(fingerprint);
+      const preview = {
+        dryRun: true,
+        executed: false,
+        fields,
+        confirmationToken: token,
+        expiresAt: new Date(this.pendingConfirmations.get(token)!.expiresAt).toISOString(),
+        instructions: "Review the affected rows. To run this mutation, call 'run_graphql_mutation' again with the same mutation and variables plus this confirmationToken.",
+      };
+      return { content: [{ type: "text" as const, text: JSON.stringify(preview, null, 2) }] };
     }
 
     try {
-      const result = await this.makeGqlRequest(mutation, variables);
+      const result = await makeGqlRequest(mutation, variables);
       return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
     } catch (error: any) {
-      console.error(`[ERROR] Tool 'run_graphql_mutation' failed: ${error.message}`);
+      logger.error(`Tool 'run_graphql_mutation' failed: ${error.message}`);
       throw error;
     }
   }
+
+  private issueConfirmationToken(fingerprint: string): string {
+    const now = Date.now();
+    for (const [token, pending] of this.pendingConfirmations) {
+      if (pending.expiresAt <= now) {
+        this.pendingConfirmations.delete(token);
+      }
+    }
+    const token = randomUUID();
+    this.pendingConfirmations.set(token, { fingerprint, expiresAt: now + CONFIRMATION_TOKEN_TTL_MS });
+    return token;
+  }
+
+  private consumeConfirmationToken(token: string, fingerprint: string) {
+    const pending = this.pendingConfirmations.get(token);
+    if (!pending || pending.expiresAt <= Date.now()) {
+      this.pendingConfirmations.delete(token);
+      throw new Error("Confirmation token is unknown or has expired. Run the mutation with dryRun=true to get a new one.");
+    }
+    if (pending.fingerprint !== fingerprint) {
+      throw new Error("Confirmation token was issued for a different mutation, different variables or a different endpoint. Run the mutation with dryRun=true to get a new one.");
+    }
+    this.pendingConfirmations.delete(token);
+  }
 }
@@ -1,5 +1,12 @@
 import { z } from "zod";
-import { IServerTool, MakeGqlRequest } from "../types/IServerTool.js";
+import { IntrospectionSchema } from 'graphql';
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { sessionInputShape, buildSessionHeaders, getSessionRole } from "../utils/hasuraSession.js";
+import { analyzeDocument, validationErrorResult } from "../utils/graphqlValidation.js";
+import { analyzeQueryCost, findCostViolations, queryCostErrorResult, suggestLimitedQuery } from "../utils/queryCost.js";
+import { QueryGuardConfig } from "../config.js";
+import { logger } from "../logger.js";
 
 export class RunGraphQLQueryTool implements IServerTool {
   name = "run_graphql_query";
@@ -9,18 +16,30 @@ Executes a read-only GraphQL query against the Hasura endpoint.
 Parameters:
   - query: The GraphQL query string (must be a read-only operation, not a mutation)
   - variables: Object containing query variables (optional)
-  - forceBigQuery: Set to true to bypass automatic result trimming (optional)
+  - forceBigQuery: Set to true to bypass the response budget (optional)
+  - role: Hasura role to run as, e.g. 'user' (optional, requires an admin secret)
+  - sessionVariables: Map of x-hasura-* session variables for the role (optional)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
 
 Returns:
   - JSON result of the GraphQL query execution
-  - If results contain arrays with more than 100 items, they will be automatically trimmed
-  - A warning will be added to the response if trimming occurred
+  - If the result is larger than the server's response budget, long arrays and strings are cut
+    to fit and a '_truncated' entry lists every cut with its JSON path
+  - If the query fails schema validation, a structured error list with locations and
+    "did you mean" suggestions is returned instead and nothing is sent to Hasura
+  - If the query is too expensive (see the cost guard below), the violations, the computed
+    cost and a suggested rewrite with limits added are returned instead
 
-Note: This tool only supports read-only queries. Mutation operations will be rejected.
-Use 'run_graphql_mutation' for insert, update, or delete operations.
+Note: This tool only supports read-only queries. The document is parsed and every operation
+must be a query; mutations and subscriptions are rejected. Use 'run_graphql_mutation' for
+insert, update, or delete operations.
 
-IMPORTANT: Results are automatically trimmed to 100 rows per array to prevent excessive data.
-To avoid this warning and have full control, use pagination in your queries:
+Cost guard: Before a query is sent, its selection depth, its list fields without a 'limit'
+argument (e.g. array relationships) and its estimated row fan-out are computed. Queries over
+the server's thresholds are rejected; add 'limit' arguments to nested lists to fix them.
+Queries are also rejected while the schema cannot be loaded, since the guard needs it.
+
+IMPORTANT: To avoid cut results and have full control, use pagination in your queries:
 
 Hasura Pagination Pattern:
   query($limit: Int!, $offset: Int!) {
@@ -30,79 +49,78 @@ Hasura Pagination Pattern:
     }
   }
 
-Set 'forceBigQuery: true' to disable automatic trimming if you need all results.
+For large tables, prefer the 'paginate_table' tool: it pages by keyset on the primary key,
+which is faster and more stable than offset pagination. Use 'export_query' to write a full
+result set to a file.
+
+Set 'forceBigQuery: true' to skip the response budget if you need all results.
   `.trim();
   inputSchema = z.object({
     query: z.string().describe("The GraphQL query string (must be a read-only operation)."),
     variables: z.record(z.unknown()).optional().describe("Optional. An object containing variables for your query."),
-    forceBigQuery: z.boolean().optional().describe("Optional. Set to true to disable automatic result trimming (allows unlimited results)."),
+    forceBigQuery: z.boolean().optional().describe("Optional. Set to true to skip the response budget and return the full result."),
+    ...sessionInputShape,
+    ...endpointInputShape,
   });
 
-  constructor(private makeGqlRequest: MakeGqlRequest) {
+  constructor(private resolveEndpoint: ResolveEndpoint, private queryGuard: QueryGuardConfig) {
     this.execute = this.execute.bind(this);
   }
 
+  bypassResponseShaping(input: z.infer<typeof this.inputSchema>): boolean {
+    return input.forceBigQuery === true;
+  }
+
   async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
-    const { query, variables, forceBigQuery = false } = input;
-    console.log(`[INFO] Executing tool 'run_graphql_query'${forceBigQuery ? ' (forceBigQuery enabled)' : ''}`);
+    const { query, variables, forceBigQuery = false, role, sessionVariables, endpoint } = input;
+    logger.info(`Executing tool 'run_graphql_query'${forceBigQuery ? ' (forceBigQuery enabled)' : ''}${role ? ` as role '${role}'` : ''}`);
+    const { makeGqlRequest, getIntrospectionSchema } = this.resolveEndpoint(endpoint);
 
-    if (query.trim().toLowerCase().startsWith('mutation')) {
-      throw new Error("This tool only supports read-only queries...");
-    }
+    const sessionHeaders = buildSessionHeaders(role, sessionVariables);
 
+    let schema: IntrospectionSchema | null = null;
+    let schemaError: string | undefined;
     try {
-      const result = await this.makeGqlRequest(query, variables || {});
-
-      // Trim results if forceBigQuery is false
-      if (!forceBigQuery) {
-        let trimmed = false;
-        const trimmedFields: string[] = [];
-
-        const trimResult = (obj: any, path: string = 'root'): any => {
-          if (Array.isArray(obj)) {
-            if (obj.length > 100) {
-              trimmed = true;
-              trimmedFields.push(`${path} (${obj.length} rows trimmed to 100)`);
-              return obj.slice(0, 100);
-            }
-            return obj.map((item, idx) => trimResult(item, `${path}[${idx}]`));
-          } else if (obj !== null && typeof obj === 'object') {
-            const trimmedObj: any = {};
-            for (const key in obj) {
-              trimmedObj[key] = trimResult(obj[key], path === 'root' ? key : `${path}.${key}`);
-            }
-            return trimmedObj;
-          }
-          return obj;
-        };
-
-        const trimmedResult = trimResult(result);
-
-        if (trimmed) {
-          console.warn(
-            `[WARN] Tool 'run_graphql_query' trimmed results:\n` +
-            trimmedFields.map(f => `  - ${f}`).join('\n') + '\n' +
-            `To avoid this, add pagination to your query: tableName(limit: $limit, offset: $offset)\n` +
-            `Or set 'forceBigQuery: true' to retrieve all results.`
-          );
-
-          return {
-            content: [{
-              type: "text" as const,
-              text: JSON.stringify({
-                ...trimmedResult,
-                _warning: `Results were automatically trimmed to 100 rows per array to prevent excessive data. Trimmed fields: ${trimmedFields.join(', ')}. Use pagination in your query (limit/offset) or set forceBigQuery=true to get all results.`
-              }, null, 2)
-            }]
-          };
-        }
-
-        return { content: [{ type: "text" as const, text: JSON.stringify(trimmedResult, null, 2) }] };
+      schema = await getIntrospectionSchema(getSessionRole(sessionHeaders));
+    } catch (error: any) {
+      schemaError = error.message;
+      logger.warn(`Tool 'run_graphql_query' could not load the schema, skipping validation: ${error.message}`);
+    }
+
+    const analysis = analyzeDocument(query, schema);
+    if (!analysis.document) {
+      return validationErrorResult(analysis.errors);
+    }
+    if (analysis.operationTypes.length === 0) {
+      throw new Error("The provided document does not contain a query operation.");
+    }
+    const nonQueryTypes = analysis.operationTypes.filter(t => t !== 'query');
+    if (nonQueryTypes.length > 0) {
+      throw new Error(`This tool only supports read-only queries, but the document contains a ${nonQueryTypes[0]} operation. Use 'run_graphql_mutation' for mutations.`);
+    }
+    if (analysis.errors.length > 0) {
+      return validationErrorResult(analysis.errors);
+    }
+    if (this.queryGuard.enabled && !schema) {
+      // The cost guard needs the schema to tell lists from objects; never let a query past it unchecked.
+      throw new Error(`The query cost guard cannot check this query because the schema could not be loaded (${schemaError}). Nothing was sent to Hasura. Try again, or use 'refresh_schema'.`);
+    }
+    if (schema && this.queryGuard.enabled) {
+      const cost = analyzeQueryCost(analysis.document, schema, variables || {}, this.queryGuard.assumedListSize);
+      const violations = findCostViolations(cost, this.queryGuard);
+      if (violations.length > 0) {
+        logger.warn(`Tool 'run_graphql_query' rejected a query: ${violations.join(' ')}`);
+        const { enabled, ...limits } = this.queryGuard;
+        const suggestedQuery = suggestLimitedQuery(analysis.document, schema, variables || {}, this.queryGuard.assumedListSize);
+        return queryCostErrorResult(cost, limits, violations, suggestedQuery);
       }
+    }
 
+    try {
+      const result = await makeGqlRequest(query, variables || {}, sessionHeaders);
       return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
     } catch (error: any) {
-      console.error(`[ERROR] Tool 'run_graphql_query' failed: ${error.message}`);
+      logger.error(`Tool 'run_graphql_query' failed: ${error.message}`);
       throw error;
     }
   }
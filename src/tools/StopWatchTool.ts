@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { IServerTool } from "../types/IServerTool.js";
+import { WatchRegistry } from "../subscriptionWatches.js";
+import { logger } from "../logger.js";
+
+export class StopWatchTool implements IServerTool {
+  name = "stop_watch";
+  description = `
+Stops a long-lived subscription watch started with 'watch_subscription' (keepAlive: true) and
+removes its 'hasura:/watches/<id>' resource.
+
+Parameters:
+  - watchId: The watchId returned by 'watch_subscription'
+
+Returns:
+  - The watch's final state: status, eventCount, lastEventAt and its latest events
+  `.trim();
+  inputSchema = z.object({
+    watchId: z.string().describe("The watchId returned by 'watch_subscription'."),
+  });
+
+  constructor(private watches: WatchRegistry) {
+    this.execute = this.execute.bind(this);
+  }
+
+  async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
+    logger.info(`Executing tool 'stop_watch' for watch: ${input.watchId}`);
+    try {
+      const watch = this.watches.stop(input.watchId);
+      return { content: [{ type: "text" as const, text: JSON.stringify(watch, null, 2) }] };
+    } catch (error: any) {
+      logger.error(`Tool 'stop_watch' failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { IServerTool, ResolveEndpoint } from "../types/IServerTool.js";
+import { WatchEvent, WatchRegistry } from "../subscriptionWatches.js";
+import { endpointInputShape } from "../utils/endpointInput.js";
+import { sessionInputShape, buildSessionHeaders, getSessionRole } from "../utils/hasuraSession.js";
+import { analyzeDocument, validationErrorResult } from "../utils/graphqlValidation.js";
+import { collectSubscription } from "../utils/graphqlSubscription.js";
+import { logger } from "../logger.js";
+
+const MAX_EVENTS = 500;
+const MAX_DURATION_MS = 60_000;
+
+export class WatchSubscriptionTool implements IServerTool {
+  name = "watch_subscription";
+  description = `
+Runs a GraphQL subscription against Hasura over a WebSocket (graphql-ws) and collects its events,
+either for a bounded time or as a long-lived watch exposed as an MCP resource.
+
+Parameters:
+  - query: The GraphQL subscription document (every operation must be a subscription)
+  - variables: Object containing subscription variables (optional)
+  - maxEvents: Stop after this many events (default: 10, max: 500)
+  - durationMs: Stop after this many milliseconds (default: 10000, max: 60000)
+  - keepAlive: Instead of collecting, keep the subscription open as a watch resource (default: false)
+  - role: Hasura role to run as, e.g. 'user' (optional, requires an admin secret)
+  - sessionVariables: Map of x-hasura-* session variables for the role (optional)
+  - endpoint: Name of the configured Hasura endpoint to use (optional, see list_endpoints)
+
+Returns:
+  - events: The collected events, each with receivedAt and data
+  - eventCount: Number of events collected
+  - stoppedBy: 'maxEvents', 'duration' or 'completed'
+  - With keepAlive: watchId and resourceUri ('hasura:/watches/<id>') instead; the resource holds
+    the latest events and subscribed clients get an update notification on every event
+
+Note: Hasura live queries send the current result as their first event, then a new event each
+time it changes. Stop a watch with 'stop_watch'; all watches end when the MCP session closes.
+  `.trim();
+  inputSchema = z.object({
+    query: z.string().describe("The GraphQL subscription document, e.g. 'subscription { orders(limit: 5) { id status } }'."),
+    variables: z.record(z.unknown()).optional().describe("Optional. An object containing variables for the subscription."),
+    maxEvents: z.number().int().positive().max(MAX_EVENTS).optional().default(10).describe("Optional. Stop after this many events. Default: 10."),
+    durationMs: z.number().int().positive().max(MAX_DURATION_MS).optional().default(10_000).describe("Optional. Stop after this many milliseconds. Default: 10000."),
+    keepAlive: z.boolean().optional().default(false).describe("Optional. Keep the subscription open as a 'hasura:/watches/<id>' resource instead of collecting events. Default: false."),
+    ...sessionInputShape,
+    ...endpointInputShape,
+  });
+
+  constructor(
+    private resolveEndpoint: ResolveEndpoint,
+    private watches: WatchRegistry
+  ) {
+    this.execute = this.execute.bind(this);
+  }
+
+  async execute(input: z.infer<typeof this.inputSchema>, _extra: any) {
+    const { query, variables, maxEvents = 10, durationMs = 10_000, keepAlive = false, role, sessionVariables, endpoint } = input;
+    logger.info(`Executing tool 'watch_subscription'${keepAlive ? ' (keepAlive)' : ` for up to ${maxEvents} events or ${durationMs}ms`}${role ? ` as role '${role}'` : ''}`);
+    const hasuraEndpoint = this.resolveEndpoint(endpoint);
+
+    const sessionHeaders = buildSessionHeaders(role, sessionVariables);
+    const schema = await hasuraEndpoint.getIntrospectionSchema(getSessionRole(sessionHeaders));
+    const analysis = analyzeDocument(query, schema);
+    if (!analysis.document) {
+      return validationErrorResult(analysis.errors);
+    }
+    if (analysis.operationTypes.length === 0 || analysis.operationTypes.some(t => t !== 'subscription')) {
+      throw new Error("This tool only runs subscriptions; every operation in the document must be a subscription. Use 'run_graphql_query' for queries.");
+    }
+    if (analysis.errors.length > 0) {
+      return validationErrorResult(analysis.errors);
+    }
+
+    try {
+      if (keepAlive) {
+        const watch = this.watches.start(hasuraEndpoint, query, variables, sessionHeaders);
+        const result = {
+          watchId: watch.id,
+          resourceUri: watch.uri,
+          status: watch.status,
+          note: `Read or subscribe to ${watch.uri} for the latest events. Stop it with 'stop_watch'.`,
+        };
+        return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+      }
+
+      const events: WatchEvent[] = [];
+      const stopReason = await collectSubscription(
+        sink => hasuraEndpoint.subscribe(query, variables, sessionHeaders, sink),
+        data => {
+          events.push({ receivedAt: new Date().toISOString(), data });
+          return events.length >= maxEvents;
+        },
+        { maxDurationMs: durationMs }
+      );
+      const stoppedBy = stopReason === 'stopped' ? 'maxEvents' : stopReason;
+
+      const result = { events, eventCount: events.length, stoppedBy };
+      return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+    } catch (error: any) {
+      logger.error(`Tool 'watch_subscription' failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -1,5 +1,10 @@
 import { z } from "zod";
 import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { IntrospectionSchema } from 'graphql';
+import { SchemaDiff } from "../utils/schemaDiff.js";
+import { HasuraMetadata } from "../utils/hasuraMetadata.js";
+import { SubscriptionSink } from "../utils/graphqlSubscription.js";
 
 export type MakeGqlRequest = <T = any, V extends Record<string, any> = Record<string, any>>(
   query: string,
@@ -7,13 +12,76 @@ export type MakeGqlRequest = <T = any, V extends Record<string, any> = Record<st
   requestHeaders?: Record<string, string>
 ) => Promise<T>;
 
+/**
+ * Returns the cached introspection schema. When `role` is given the schema is
+ * introspected as that role, so it only contains what the role may access.
+ */
+export type GetIntrospectionSchema = (role?: string) => Promise<IntrospectionSchema>;
+
+export interface SchemaRefreshResult {
+  endpoint: string;
+  refreshedAt: string;
+  /** Null when there was no cached schema to compare against. */
+  diff: SchemaDiff | null;
+}
+
+/**
+ * A configured Hasura project: its own client, headers and introspection cache.
+ */
+export interface HasuraEndpoint {
+  name: string;
+  url: string;
+  authMode: 'admin-secret' | 'bearer-token' | 'none';
+  defaultRole?: string;
+  makeGqlRequest: MakeGqlRequest;
+  getIntrospectionSchema: GetIntrospectionSchema;
+  /**
+   * Returns the cached `export_metadata` result (sources, tracked tables, relationships),
+   * or null when no admin secret is configured and the metadata API is not available.
+   */
+  getMetadata(): Promise<HasuraMetadata | null>;
+  /**
+   * Re-introspects the endpoint, diffs it against the cached schema and drops every
+   * cached per-role schema and the cached metadata so they are fetched again on next use.
+   */
+  refreshIntrospectionSchema(): Promise<SchemaRefreshResult>;
+  /** Registers a listener for refreshes that found changes; returns an unsubscribe function. */
+  onSchemaChange(listener: (result: SchemaRefreshResult) => void): () => void;
+  /**
+   * Runs a subscription over a WebSocket connection of its own, with the endpoint's headers
+   * plus `requestHeaders`. Returns a function that ends it.
+   */
+  subscribe(
+    query: string,
+    variables: Record<string, unknown> | undefined,
+    requestHeaders: Record<string, string>,
+    sink: SubscriptionSink
+  ): () => void;
+}
+
+/**
+ * Looks up an endpoint by name; without a name the server's default endpoint is returned.
+ * Throws for unknown names.
+ */
+export type ResolveEndpoint = (name?: string) => HasuraEndpoint;
+
 export interface IServerTool<T extends z.ZodRawShape = any> {
   name: string;
   description: string;
   inputSchema: z.ZodObject<T>;
+  /**
+   * Returns true when this call's result should be sent as-is, skipping the shared response
+   * budget (e.g. the caller explicitly asked for the full result).
+   */
+  bypassResponseShaping?(input: z.infer<z.ZodObject<T>>): boolean;
+  /**
+   * True when this tool's Hasura queries may be answered from the shared result cache. Such
+   * tools also accept `noCache`.
+   */
+  cacheResults?: boolean;
   execute(
     input: z.infer<z.ZodObject<T>>,
-    extra: RequestHandlerExtra
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
   ): Promise<{
     content: Array<{ type: "text"; text: string }>;
     isError?: boolean;
@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+/**
+ * Input field shared by every tool that talks to Hasura, selecting one of the configured endpoints.
+ */
+export const endpointInputShape = {
+  endpoint: z.string().optional().describe("Optional. Name of the configured Hasura endpoint to use (see 'list_endpoints'). Defaults to the server's default endpoint."),
+};
@@ -0,0 +1,52 @@
+export type ExportFormat = 'csv' | 'ndjson';
+
+/**
+ * Flattens nested objects into dotted column names, e.g. `{ author: { name } }` becomes
+ * `author.name`. Arrays are kept as values (serialized as JSON in CSV).
+ */
+export function flattenRow(row: Record<string, unknown>, prefix: string = '', into: Record<string, unknown> = {}): Record<string, unknown> {
+  for (const [key, value] of Object.entries(row)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      flattenRow(value as Record<string, unknown>, column, into);
+    } else {
+      into[column] = value;
+    }
+  }
+  return into;
+}
+
+/**
+ * Union of the keys of all rows, in first-seen order.
+ */
+export function collectColumns(rows: Array<Record<string, unknown>>): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      columns.add(key);
+    }
+  }
+  return Array.from(columns);
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes flattened rows as lines of the given format (RFC 4180 CSV with a header row, or
+ * one JSON object per line). Each returned string ends with a newline.
+ */
+export function serializeRows(rows: Array<Record<string, unknown>>, columns: string[], format: ExportFormat): string[] {
+  if (format === 'ndjson') {
+    return rows.map(row => `${JSON.stringify(Object.fromEntries(columns.map(c => [c, row[c] ?? null])))}\n`);
+  }
+  return [
+    `${columns.map(csvCell).join(',')}\r\n`,
+    ...rows.map(row => `${columns.map(c => csvCell(row[c])).join(',')}\r\n`),
+  ];
+}
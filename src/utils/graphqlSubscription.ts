@@ -0,0 +1,166 @@
+import WebSocket from 'ws';
+import { createClient } from 'graphql-ws';
+import { getAbortError, getCallSignal } from "../callContext.js";
+
+export interface SubscriptionSink {
+  /** Called with the `data` of every event. */
+  next(data: Record<string, unknown>): void;
+  /** Called once when the subscription fails; no further calls follow. */
+  error(error: Error): void;
+  /** Called once when the server ends the subscription. */
+  complete(): void;
+}
+
+/**
+ * Derives the WebSocket URL from a GraphQL endpoint URL: Hasura serves subscriptions on the
+ * same path, over ws:// or wss://.
+ */
+export function getSubscriptionUrl(endpoint: string): string {
+  const url = new URL(endpoint);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+}
+
+function toError(error: unknown): Error {
+  if (error instanceof Error) {
+    return error;
+  }
+  if (Array.isArray(error)) {
+    return new Error(`Subscription failed: ${error.map(e => e?.message ?? String(e)).join(', ')}`);
+  }
+  if (error && typeof error === 'object' && 'code' in error) {
+    const { code, reason } = error as { code: number; reason?: string };
+    return new Error(`Subscription connection closed (${code})${reason ? `: ${reason}` : ''}.`);
+  }
+  return new Error(`Subscription failed: ${String(error)}`);
+}
+
+/**
+ * Opens a graphql-ws (graphql-transport-ws protocol) connection for a single subscription.
+ * Hasura reads the request headers from the `headers` key of the connection_init payload.
+ * Returns a function that ends the subscription and closes the connection.
+ */
+export function openSubscription(
+  url: string,
+  headers: Record<string, string>,
+  query: string,
+  variables: Record<string, unknown> | undefined,
+  sink: SubscriptionSink,
+  connectTimeoutMs: number
+): () => void {
+  const client = createClient({
+    url,
+    webSocketImpl: WebSocket,
+    connectionParams: { headers },
+    connectionAckWaitTimeout: connectTimeoutMs,
+    retryAttempts: 0,
+  });
+
+  let closed = false;
+  const close = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    unsubscribe();
+    void client.dispose();
+  };
+
+  const unsubscribe = client.subscribe<Record<string, unknown>>({ query, variables }, {
+    next: result => {
+      if (result.errors && result.errors.length > 0) {
+        sink.error(toError(result.errors));
+        close();
+        return;
+      }
+      sink.next(result.data ?? {});
+    },
+    error: error => {
+      if (!closed) {
+        sink.error(toError(error));
+        close();
+      }
+    },
+    complete: () => {
+      if (!closed) {
+        sink.complete();
+        close();
+      }
+    },
+  });
+  return close;
+}
+
+export type CollectStopReason = 'stopped' | 'duration' | 'idle' | 'completed';
+
+export interface CollectOptions {
+  /** Hard limit on how long the subscription stays open. */
+  maxDurationMs: number;
+  /** Stop once no event has arrived for this long (optional). */
+  idleMs?: number;
+}
+
+/**
+ * Runs a subscription until `onData` returns true, the server completes it, `maxDurationMs`
+ * passes or no event arrives for `idleMs`, then closes it. Rejects if the subscription fails or
+ * the tool call it runs in is cancelled.
+ */
+export function collectSubscription(
+  subscribe: (sink: SubscriptionSink) => () => void,
+  onData: (data: Record<string, unknown>) => boolean,
+  options: CollectOptions
+): Promise<CollectStopReason> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let close: (() => void) | undefined;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const callSignal = getCallSignal();
+    const onAbort = () => finish(getAbortError(callSignal!));
+    const finish = (reason: CollectStopReason | Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(durationTimer);
+      clearTimeout(idleTimer);
+      callSignal?.removeEventListener('abort', onAbort);
+      close?.();
+      if (reason instanceof Error) {
+        reject(reason);
+      } else {
+        resolve(reason);
+      }
+    };
+    const resetIdleTimer = () => {
+      if (options.idleMs !== undefined) {
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => finish('idle'), options.idleMs);
+      }
+    };
+    const durationTimer = setTimeout(() => finish('duration'), options.maxDurationMs);
+    resetIdleTimer();
+    if (callSignal?.aborted) {
+      onAbort();
+      return;
+    }
+    callSignal?.addEventListener('abort', onAbort, { once: true });
+    close = subscribe({
+      next: data => {
+        if (settled) {
+          return;
+        }
+        if (onData(data)) {
+          finish('stopped');
+        } else {
+          resetIdleTimer();
+        }
+      },
+      error: error => finish(error),
+      complete: () => finish('completed'),
+    });
+    // The subscription may already have settled while it was being opened.
+    if (settled) {
+      close();
+    }
+  });
+}
@@ -0,0 +1,150 @@
+import {
+  buildClientSchema,
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  GraphQLError,
+  GraphQLSchema,
+  IntrospectionSchema,
+  Kind,
+  OperationTypeNode,
+  parse,
+  SelectionSetNode,
+  validate,
+} from 'graphql';
+
+export interface GraphQLValidationError {
+  message: string;
+  locations?: Array<{ line: number; column: number }>;
+  suggestions?: string[];
+}
+
+export interface AnalyzedDocument {
+  /** The parsed document, or null when the source has syntax errors. */
+  document: DocumentNode | null;
+  /** Operation type of every operation in the document, in source order. */
+  operationTypes: OperationTypeNode[];
+  errors: GraphQLValidationError[];
+}
+
+// buildClientSchema is expensive on large Hasura schemas, so keep one per cached introspection result.
+const clientSchemas = new WeakMap<IntrospectionSchema, GraphQLSchema>();
+
+/**
+ * Builds (once per cached introspection result) a graphql-js schema for validation and printing.
+ */
+export function getClientSchema(introspectionSchema: IntrospectionSchema): GraphQLSchema {
+  let clientSchema = clientSchemas.get(introspectionSchema);
+  if (!clientSchema) {
+    clientSchema = buildClientSchema({ __schema: introspectionSchema });
+    clientSchemas.set(introspectionSchema, clientSchema);
+  }
+  return clientSchema;
+}
+
+function extractSuggestions(message: string): string[] {
+  const match = message.match(/Did you mean (.+)\?/);
+  if (!match) {
+    return [];
+  }
+  return Array.from(match[1].matchAll(/"([^"]+)"/g), m => m[1]);
+}
+
+function toValidationError(error: GraphQLError): GraphQLValidationError {
+  const suggestions = extractSuggestions(error.message);
+  return {
+    message: error.message,
+    ...(error.locations?.length && { locations: error.locations.map(({ line, column }) => ({ line, column })) }),
+    ...(suggestions.length > 0 && { suggestions }),
+  };
+}
+
+/**
+ * Parses a GraphQL document and, when a schema is available, validates it with the
+ * standard graphql-js rules. Nothing is sent to Hasura.
+ */
+export function analyzeDocument(source: string, introspectionSchema?: IntrospectionSchema | null): AnalyzedDocument {
+  let document: DocumentNode;
+  try {
+    document = parse(source);
+  } catch (error) {
+    if (error instanceof GraphQLError) {
+      return { document: null, operationTypes: [], errors: [toValidationError(error)] };
+    }
+    throw error;
+  }
+
+  const operationTypes = document.definitions
+    .filter(d => d.kind === Kind.OPERATION_DEFINITION)
+    .map(d => d.operation);
+
+  const errors = introspectionSchema
+    ? validate(getClientSchema(introspectionSchema), document).map(toValidationError)
+    : [];
+
+  return { document, operationTypes, errors };
+}
+
+/**
+ * Formats validation errors as an MCP tool error result.
+ */
+export function validationErrorResult(errors: GraphQLValidationError[]) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        error: `GraphQL document failed validation with ${errors.length} error(s). Nothing was sent to Hasura.`,
+        errors,
+      }, null, 2)
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * Collects the fields selected at the root of every operation of the given type,
+ * following fragment spreads and inline fragments. `__typename` is skipped.
+ */
+export function getRootFields(document: DocumentNode, operationType: OperationTypeNode): FieldNode[] {
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    }
+  }
+
+  const fields: FieldNode[] = [];
+  const visitedFragments = new Set<string>();
+  const collect = (selectionSet: SelectionSetNode) => {
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.FIELD) {
+        if (selection.name.value !== '__typename') {
+          fields.push(selection);
+        }
+      } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+        collect(selection.selectionSet);
+      } else {
+        const fragmentName = selection.name.value;
+        const fragment = fragments.get(fragmentName);
+        if (fragment && !visitedFragments.has(fragmentName)) {
+          visitedFragments.add(fragmentName);
+          collect(fragment.selectionSet);
+        }
+      }
+    }
+  };
+
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.OPERATION_DEFINITION && definition.operation === operationType) {
+      collect(definition.selectionSet);
+    }
+  }
+  return fields;
+}
+
+/**
+ * The distinct schema field names (not aliases) selected at the root of the given operation type.
+ */
+export function getRootFieldNames(document: DocumentNode, operationType: OperationTypeNode): string[] {
+  return Array.from(new Set(getRootFields(document, operationType).map(f => f.name.value)));
+}
@@ -0,0 +1,248 @@
+export interface QualifiedTableName {
+  schema: string;
+  name: string;
+}
+
+export interface MetadataRelationship {
+  name: string;
+  type: 'object' | 'array';
+  /** The related table, when it can be determined from the relationship definition. */
+  remoteTable: QualifiedTableName | null;
+  /** Local column to remote column, for manual relationships. */
+  columnMapping: Record<string, string> | null;
+  /** Columns holding the foreign key, for foreign-key based relationships. */
+  foreignKeyColumns: string[] | null;
+}
+
+export interface MetadataComputedField {
+  name: string;
+  function: string;
+  comment: string | null;
+}
+
+export type PermissionAction = 'select' | 'insert' | 'update' | 'delete';
+
+export const PERMISSION_ACTIONS: PermissionAction[] = ['select', 'insert', 'update', 'delete'];
+
+export interface MetadataPermission {
+  role: string;
+  action: PermissionAction;
+  /** Allowed columns; '*' means all columns. Null for delete, which has no column list. */
+  columns: string[] | '*' | null;
+  /** Row filter (select, update, delete). An empty object allows every row. */
+  filter: Record<string, unknown> | null;
+  /** Post-write check (insert, update). */
+  check: Record<string, unknown> | null;
+  /** Column presets applied on insert/update, e.g. { user_id: 'x-hasura-user-id' }. */
+  presets: Record<string, unknown> | null;
+  /** Row limit (select). */
+  limit: number | null;
+  /** Whether *_aggregate queries are allowed (select). */
+  allowAggregations: boolean | null;
+  /** Computed fields the role may select (select). */
+  computedFields: string[] | null;
+  /** Only allowed for requests with x-hasura-use-backend-only-permissions (insert, update, delete). */
+  backendOnly: boolean;
+}
+
+export interface MetadataTable {
+  source: string;
+  schema: string;
+  name: string;
+  /** GraphQL type name: the custom name, or `name` / `<schema>_<name>` like Hasura generates. */
+  graphqlName: string;
+  rootFields: {
+    select: string;
+    selectByPk: string;
+    selectAggregate: string;
+  };
+  /** Column name to custom GraphQL field name, for renamed columns only. */
+  customColumnNames: Record<string, string>;
+  relationships: MetadataRelationship[];
+  computedFields: MetadataComputedField[];
+  permissions: MetadataPermission[];
+}
+
+export interface MetadataSource {
+  name: string;
+  kind: string;
+  tables: MetadataTable[];
+}
+
+export interface HasuraMetadata {
+  resourceVersion: number | null;
+  sources: MetadataSource[];
+  tables: MetadataTable[];
+}
+
+function toQualifiedName(table: any): QualifiedTableName | null {
+  if (typeof table === 'string') {
+    return { schema: 'public', name: table };
+  }
+  if (table && typeof table.name === 'string') {
+    return { schema: table.schema || 'public', name: table.name };
+  }
+  return null;
+}
+
+function toColumnList(value: any): string[] | null {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.filter((c): c is string => typeof c === 'string');
+  }
+  return null;
+}
+
+function parseRelationship(raw: any, type: 'object' | 'array'): MetadataRelationship {
+  const using = raw.using || {};
+  if (using.manual_configuration) {
+    return {
+      name: raw.name,
+      type,
+      remoteTable: toQualifiedName(using.manual_configuration.remote_table),
+      columnMapping: using.manual_configuration.column_mapping || null,
+      foreignKeyColumns: null,
+    };
+  }
+
+  const fk = using.foreign_key_constraint_on;
+  if (type === 'array' || (fk && typeof fk === 'object' && fk.table)) {
+    // Array relationships (and object relationships to a table that references this one)
+    // name the remote table and the remote table's columns that point back at us.
+    return {
+      name: raw.name,
+      type,
+      remoteTable: toQualifiedName(fk?.table),
+      columnMapping: null,
+      foreignKeyColumns: toColumnList(fk?.columns ?? fk?.column),
+    };
+  }
+
+  // Object relationship through a foreign key on this table; the remote table is not
+  // recorded in metadata, only the local column(s).
+  return {
+    name: raw.name,
+    type,
+    remoteTable: null,
+    columnMapping: null,
+    foreignKeyColumns: toColumnList(typeof fk === 'object' && fk !== null ? fk.columns ?? fk.column : fk) ?? [],
+  };
+}
+
+function parsePermission(raw: any, action: PermissionAction): MetadataPermission {
+  const permission = raw.permission || {};
+  return {
+    role: raw.role,
+    action,
+    columns: action === 'delete' ? null : (permission.columns ?? []),
+    filter: action === 'insert' ? null : (permission.filter ?? {}),
+    check: action === 'insert' || action === 'update' ? (permission.check ?? null) : null,
+    presets: action === 'insert' || action === 'update' ? (permission.set ?? null) : null,
+    limit: action === 'select' ? (permission.limit ?? null) : null,
+    allowAggregations: action === 'select' ? Boolean(permission.allow_aggregations) : null,
+    computedFields: action === 'select' ? (permission.computed_fields ?? []) : null,
+    backendOnly: Boolean(permission.backend_only),
+  };
+}
+
+function parseTable(source: string, raw: any): MetadataTable | null {
+  const qualified = toQualifiedName(raw.table);
+  if (!qualified) {
+    return null;
+  }
+  const configuration = raw.configuration || {};
+  const customRootFields = configuration.custom_root_fields || {};
+  const graphqlName = configuration.custom_name
+    || (qualified.schema === 'public' ? qualified.name : `${qualified.schema}_${qualified.name}`);
+
+  const customColumnNames: Record<string, string> = { ...(configuration.custom_column_names || {}) };
+  for (const [column, columnConfig] of Object.entries<any>(configuration.column_config || {})) {
+    if (columnConfig?.custom_name) {
+      customColumnNames[column] = columnConfig.custom_name;
+    }
+  }
+
+  // custom_root_fields entries are either a plain name or { name, comment }.
+  const rootFieldName = (value: any, fallback: string): string =>
+    (typeof value === 'string' ? value : value?.name) || fallback;
+
+  return {
+    source,
+    schema: qualified.schema,
+    name: qualified.name,
+    graphqlName,
+    rootFields: {
+      select: rootFieldName(customRootFields.select, graphqlName),
+      selectByPk: rootFieldName(customRootFields.select_by_pk, `${graphqlName}_by_pk`),
+      selectAggregate: rootFieldName(customRootFields.select_aggregate, `${graphqlName}_aggregate`),
+    },
+    customColumnNames,
+    relationships: [
+      ...(raw.object_relationships || []).map((r: any) => parseRelationship(r, 'object')),
+      ...(raw.array_relationships || []).map((r: any) => parseRelationship(r, 'array')),
+    ],
+    computedFields: (raw.computed_fields || []).map((c: any) => {
+      const fn = toQualifiedName(c.definition?.function);
+      return {
+        name: c.name,
+        function: fn ? `${fn.schema}.${fn.name}` : 'unknown',
+        comment: c.comment || null,
+      };
+    }),
+    permissions: PERMISSION_ACTIONS.flatMap(action =>
+      (raw[`${action}_permissions`] || []).map((p: any) => parsePermission(p, action))
+    ),
+  };
+}
+
+/**
+ * Normalizes an `export_metadata` response. Accepts both the v1 shape (metadata at the
+ * top level) and the v2 shape (`{ resource_version, metadata }`).
+ */
+export function parseMetadata(response: any): HasuraMetadata {
+  const metadata = response?.metadata ?? response;
+  if (!metadata || typeof metadata !== 'object') {
+    throw new Error("export_metadata returned an unexpected response.");
+  }
+
+  // Metadata version 1 had no sources; everything lived in the 'default' source.
+  const rawSources: any[] = Array.isArray(metadata.sources)
+    ? metadata.sources
+    : [{ name: 'default', kind: 'postgres', tables: metadata.tables || [] }];
+
+  const sources = rawSources.map(source => ({
+    name: source.name,
+    kind: source.kind || 'postgres',
+    tables: (source.tables || [])
+      .map((t: any) => parseTable(source.name, t))
+      .filter((t: MetadataTable | null): t is MetadataTable => t !== null),
+  }));
+
+  return {
+    resourceVersion: typeof response?.resource_version === 'number' ? response.resource_version : null,
+    sources,
+    tables: sources.flatMap(s => s.tables),
+  };
+}
+
+/**
+ * Finds a tracked table by its GraphQL name or select root field, or by its SQL name
+ * within the given schema.
+ */
+export function findMetadataTable(metadata: HasuraMetadata, tableName: string, schemaName?: string): MetadataTable | undefined {
+  return metadata.tables.find(t => t.graphqlName === tableName || t.rootFields.select === tableName)
+    ?? metadata.tables.find(t => t.name === tableName && (!schemaName || t.schema === schemaName));
+}
+
+/**
+ * Derives the metadata API URL from a GraphQL endpoint URL (`.../v1/graphql` becomes `.../v1/metadata`).
+ */
+export function getMetadataUrl(graphqlUrl: string): string {
+  const url = new URL(graphqlUrl);
+  url.pathname = /\/v1\/graphql\/?$/.test(url.pathname)
+    ? url.pathname.replace(/\/v1\/graphql\/?$/, '/v1/metadata')
+    : '/v1/metadata';
+  return url.toString();
+}
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+const SESSION_VARIABLE_PREFIX = 'x-hasura-';
+
+/**
+ * Input fields shared by tools that can run as a specific Hasura role.
+ * Spread into a tool's `inputSchema` so the arguments look the same everywhere.
+ */
+export const sessionInputShape = {
+  role: z.string().optional().describe("Optional. Hasura role to impersonate (sent as 'x-hasura-role'). Requires an admin secret."),
+  sessionVariables: z.record(z.string()).optional().describe("Optional. Hasura session variables, e.g. { \"x-hasura-user-id\": \"42\" }. The 'x-hasura-' prefix is added if missing. Use 'role' for the role."),
+};
+
+/**
+ * Builds the per-request headers for role impersonation. Variable names are lower-cased
+ * and prefixed with 'x-hasura-' so `user-id` and `X-Hasura-User-Id` both end up as
+ * `x-hasura-user-id`. The role can only be set through `role`, and the admin secret can
+ * never be set, whatever the spelling of the variable name.
+ */
+export function buildSessionHeaders(role?: string, sessionVariables?: Record<string, string>): Record<string, string> {
+  const sessionHeaders: Record<string, string> = {};
+  for (const [key, value] of Object.entries(sessionVariables || {})) {
+    const trimmed = key.trim().toLowerCase();
+    const name = trimmed.startsWith(SESSION_VARIABLE_PREFIX) ? trimmed : `${SESSION_VARIABLE_PREFIX}${trimmed}`;
+    if (name === 'x-hasura-admin-secret') {
+      throw new Error("'x-hasura-admin-secret' cannot be passed as a session variable.");
+    }
+    if (name === 'x-hasura-role') {
+      throw new Error("'x-hasura-role' cannot be passed as a session variable. Use the 'role' argument instead.");
+    }
+    sessionHeaders[name] = String(value);
+  }
+  if (role) {
+    sessionHeaders['x-hasura-role'] = role;
+  }
+  return sessionHeaders;
+}
+
+/**
+ * Returns the role a set of session headers resolves to, used as the introspection cache key.
+ */
+export function getSessionRole(sessionHeaders: Record<string, string>): string | undefined {
+  return sessionHeaders['x-hasura-role'];
+}
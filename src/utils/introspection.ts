@@ -0,0 +1,66 @@
+import { IntrospectionEnumType, IntrospectionNamedTypeRef, IntrospectionObjectType, IntrospectionSchema, IntrospectionTypeRef } from 'graphql';
+
+/**
+ * Renders a type reference in SDL notation, e.g. `[users!]!`.
+ */
+export function typeRefToString(typeRef: IntrospectionTypeRef): string {
+  if (typeRef.kind === 'NON_NULL') {
+    return `${typeRefToString(typeRef.ofType)}!`;
+  }
+  if (typeRef.kind === 'LIST') {
+    return `[${typeRefToString(typeRef.ofType)}]`;
+  }
+  return (typeRef as IntrospectionNamedTypeRef).name;
+}
+
+/**
+ * Strips NON_NULL and LIST wrappers and returns the underlying named type.
+ */
+export function getNamedTypeRef(typeRef: IntrospectionTypeRef): IntrospectionNamedTypeRef {
+  let current = typeRef;
+  while (current.kind === 'NON_NULL' || current.kind === 'LIST') {
+    current = current.ofType;
+  }
+  return current as IntrospectionNamedTypeRef;
+}
+
+/**
+ * Finds an OBJECT type by name, or undefined if it does not exist or is another kind.
+ */
+export function findObjectType(schema: IntrospectionSchema, name: string): IntrospectionObjectType | undefined {
+  return schema.types.find(t => t.name === name && t.kind === 'OBJECT') as IntrospectionObjectType | undefined;
+}
+
+/**
+ * Finds an ENUM type by name, or undefined if it does not exist or is another kind.
+ */
+export function findEnumType(schema: IntrospectionSchema, name: string): IntrospectionEnumType | undefined {
+  return schema.types.find(t => t.name === name && t.kind === 'ENUM') as IntrospectionEnumType | undefined;
+}
+
+/**
+ * True if the type reference is a list at any level, e.g. `[users!]!`.
+ */
+export function isListTypeRef(typeRef: IntrospectionTypeRef): boolean {
+  let current = typeRef;
+  while (current.kind === 'NON_NULL' || current.kind === 'LIST') {
+    if (current.kind === 'LIST') {
+      return true;
+    }
+    current = current.ofType;
+  }
+  return false;
+}
+
+/**
+ * Names of the fields of an object type that return a scalar or enum (lists included),
+ * i.e. everything that can be selected without a nested selection set.
+ */
+export function getScalarFieldNames(objectType: IntrospectionObjectType): string[] {
+  return (objectType.fields || [])
+    .filter(f => {
+      const namedType = getNamedTypeRef(f.type);
+      return namedType.kind === 'SCALAR' || namedType.kind === 'ENUM';
+    })
+    .map(f => f.name);
+}
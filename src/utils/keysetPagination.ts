@@ -0,0 +1,160 @@
+import { createHash } from 'node:crypto';
+import { IntrospectionSchema } from 'graphql';
+import { MakeGqlRequest } from "../types/IServerTool.js";
+import { stableStringify } from "./operationFingerprint.js";
+import { buildSelectQuery } from "./queryBuilder.js";
+import { findPrimaryKey, findTableType } from "./tableSummary.js";
+import { getScalarFieldNames } from "./introspection.js";
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Decoded form of the opaque cursor handed to clients. It records everything needed to
+ * check that the cursor is reused with the same table, ordering and filter.
+ */
+export interface KeysetCursor {
+  table: string;
+  keys: string[];
+  direction: SortDirection;
+  filterHash: string;
+  after: unknown[];
+}
+
+const CURSOR_VERSION = 1;
+
+/**
+ * Short hash of a where filter, so a cursor cannot silently be reused with a different filter.
+ */
+export function hashFilter(where?: Record<string, unknown>): string {
+  return createHash('sha256').update(stableStringify(where || {})).digest('hex').slice(0, 16);
+}
+
+export function encodeCursor(cursor: KeysetCursor): string {
+  return Buffer.from(JSON.stringify({ v: CURSOR_VERSION, ...cursor })).toString('base64url');
+}
+
+export function decodeCursor(encoded: string): KeysetCursor {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error("Invalid cursor. Pass back the nextCursor value exactly as it was returned.");
+  }
+  if (decoded?.v !== CURSOR_VERSION || !Array.isArray(decoded.keys) || !Array.isArray(decoded.after) || decoded.keys.length !== decoded.after.length) {
+    throw new Error("Invalid cursor. Pass back the nextCursor value exactly as it was returned.");
+  }
+  const { v: _version, ...cursor } = decoded;
+  return cursor as KeysetCursor;
+}
+
+/**
+ * Hasura order_by for the keys; nulls always sort last so the keyset condition below can
+ * place them after every non-null value.
+ */
+export function buildKeysetOrderBy(keys: string[], direction: SortDirection): Array<Record<string, string>> {
+  return keys.map(key => ({ [key]: `${direction}_nulls_last` }));
+}
+
+/**
+ * Builds the Hasura `where` condition for rows strictly after `after` in (keys, direction)
+ * order: (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ..., with NULLs sorted last.
+ */
+export function buildKeysetCondition(keys: string[], after: unknown[], direction: SortDirection): Record<string, unknown> {
+  const comparison = direction === 'asc' ? '_gt' : '_lt';
+  const branches: Array<Record<string, unknown>> = [];
+  for (let i = 0; i < keys.length; i++) {
+    const equalPrefix = keys.slice(0, i).map((key, j) =>
+      after[j] === null ? { [key]: { _is_null: true } } : { [key]: { _eq: after[j] } }
+    );
+    if (after[i] === null) {
+      // Nothing sorts after NULL on this key except rows that tie on it and differ later.
+      continue;
+    }
+    branches.push({ _and: [...equalPrefix, { [keys[i]]: { [comparison]: after[i] } }] });
+    branches.push({ _and: [...equalPrefix, { [keys[i]]: { _is_null: true } }] });
+  }
+  if (branches.length === 0) {
+    // Hasura reads an empty _or as false, which would silently end the paging here.
+    throw new Error(`Cannot continue after a row whose last sort key '${keys[keys.length - 1]}' is null. Sort by a non-null column.`);
+  }
+  return { _or: branches };
+}
+
+export interface KeysetPageRequest {
+  tableName: string;
+  columns?: string[];
+  keys: string[];
+  direction: SortDirection;
+  where?: Record<string, unknown>;
+  /** Key values of the last row of the previous page; omit for the first page. */
+  after?: unknown[];
+  pageSize: number;
+}
+
+export interface KeysetPage {
+  rows: Array<Record<string, unknown>>;
+  hasMore: boolean;
+  /** Key values of the last returned row, to pass as `after` for the next page. */
+  lastKey: unknown[] | null;
+}
+
+/**
+ * Works out the sort keys for keyset pagination: the given column (if any) followed by the
+ * primary key as tie-breaker. Throws if there is neither, or if there is no primary key and
+ * the column can be null, as rows after a null in the last sort key cannot be selected.
+ */
+export function resolveKeysetKeys(schema: IntrospectionSchema, tableName: string, orderBy?: string): { keys: string[]; primaryKey: string[] } {
+  const tableType = findTableType(schema, tableName);
+  if (orderBy && tableType && !getScalarFieldNames(tableType).includes(orderBy)) {
+    throw new Error(`'${orderBy}' is not a column of '${tableName}'. Available columns: ${getScalarFieldNames(tableType).join(', ')}.`);
+  }
+  const primaryKey = findPrimaryKey(schema, [`${tableName}_by_pk`, tableType ? `${tableType.name}_by_pk` : undefined]) || [];
+  if (!orderBy && primaryKey.length === 0) {
+    throw new Error(`Table '${tableName}' has no primary key visible to this role. Pass 'orderBy' with a unique, non-null column.`);
+  }
+  const orderByField = tableType?.fields.find(f => f.name === orderBy);
+  if (orderByField && primaryKey.length === 0 && orderByField.type.kind !== 'NON_NULL') {
+    throw new Error(`Table '${tableName}' has no primary key visible to this role, so 'orderBy' must be a unique, non-null column; '${orderBy}' can be null.`);
+  }
+  return {
+    keys: orderBy ? [orderBy, ...primaryKey.filter(k => k !== orderBy)] : primaryKey,
+    primaryKey,
+  };
+}
+
+/**
+ * Fetches one page in (keys, direction) order, starting after `after`. The sort keys are
+ * always selected, even if `columns` leaves them out.
+ */
+export async function fetchKeysetPage(
+  schema: IntrospectionSchema,
+  makeGqlRequest: MakeGqlRequest,
+  requestHeaders: Record<string, string>,
+  request: KeysetPageRequest
+): Promise<KeysetPage> {
+  const { tableName, columns, keys, direction, where, after, pageSize } = request;
+
+  let pageWhere = where;
+  if (after) {
+    const afterCondition = buildKeysetCondition(keys, after, direction);
+    pageWhere = where ? { _and: [where, afterCondition] } : afterCondition;
+  }
+
+  const { query, variables } = buildSelectQuery(schema, tableName, {
+    columns: columns?.length ? Array.from(new Set([...columns, ...keys])) : undefined,
+    where: pageWhere,
+    orderBy: buildKeysetOrderBy(keys, direction),
+    // One extra row tells us whether there is another page.
+    limit: pageSize + 1,
+  }, 'KeysetPage');
+
+  const result = await makeGqlRequest(query, variables, requestHeaders);
+  const fetched: Array<Record<string, unknown>> = result?.[tableName] || [];
+  const rows = fetched.slice(0, pageSize);
+  const lastRow = rows[rows.length - 1];
+  return {
+    rows,
+    hasMore: fetched.length > pageSize,
+    lastKey: lastRow ? keys.map(k => lastRow[k] ?? null) : null,
+  };
+}
@@ -0,0 +1,40 @@
+export interface MutationAllowList {
+  /** The entries the list was built from, reported back when a mutation is rejected. */
+  entries: string[];
+  isAllowed(rootFieldName: string): boolean;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compiles allow-list entries into a matcher for mutation root field names.
+ * Entries may be exact names (`insert_audit_log_one`), globs (`insert_*`) or
+ * regular expressions wrapped in slashes (`/^update_orders(_by_pk)?$/`). The `g` and `y` flags
+ * are dropped: they make `test` depend on the previous match, so a name would be allowed and
+ * denied on alternate calls.
+ */
+export function compileMutationAllowList(entries: string[]): MutationAllowList {
+  const matchers = entries.map(entry => {
+    const regexMatch = entry.match(/^\/(.+)\/([a-z]*)$/);
+    if (regexMatch) {
+      try {
+        return new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ''));
+      } catch (error) {
+        throw new Error(`Invalid mutation allow-list pattern '${entry}': ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    if (entry.includes('*')) {
+      return new RegExp(`^${entry.split('*').map(escapeRegExp).join('.*')}$`);
+    }
+    return entry;
+  });
+
+  return {
+    entries,
+    isAllowed(rootFieldName: string) {
+      return matchers.some(m => typeof m === 'string' ? m === rootFieldName : m.test(rootFieldName));
+    },
+  };
+}
@@ -0,0 +1,180 @@
+import {
+  DocumentNode,
+  FieldNode,
+  IntrospectionObjectType,
+  IntrospectionSchema,
+  Kind,
+  OperationTypeNode,
+  print,
+  ValueNode,
+  visit,
+} from 'graphql';
+import { MakeGqlRequest } from "../types/IServerTool.js";
+import { getRootFields } from "./graphqlValidation.js";
+import { logger } from "../logger.js";
+
+export interface MutationFieldPreview {
+  field: string;
+  alias?: string;
+  action: 'insert' | 'update' | 'delete' | 'other';
+  table?: string;
+  /** Rows the field would touch, or null when it could not be determined. */
+  affectedRows: number | null;
+  warning?: string;
+  note?: string;
+}
+
+function getArgument(field: FieldNode, name: string): ValueNode | undefined {
+  return field.arguments?.find(a => a.name.value === name)?.value;
+}
+
+function getVariableNames(value: ValueNode): string[] {
+  const names = new Set<string>();
+  visit(value, {
+    Variable(node) {
+      names.add(node.name.value);
+    },
+  });
+  return Array.from(names);
+}
+
+function isEmptyObject(value: ValueNode, variables: Record<string, unknown>): boolean {
+  if (value.kind === Kind.OBJECT) {
+    return value.fields.length === 0;
+  }
+  if (value.kind === Kind.VARIABLE) {
+    const resolved = variables[value.name.value];
+    return resolved !== null && typeof resolved === 'object' && Object.keys(resolved).length === 0;
+  }
+  return false;
+}
+
+function countListValue(value: ValueNode | undefined, variables: Record<string, unknown>): number | null {
+  if (!value) {
+    return null;
+  }
+  if (value.kind === Kind.LIST) {
+    return value.values.length;
+  }
+  if (value.kind === Kind.OBJECT) {
+    return 1;
+  }
+  if (value.kind === Kind.VARIABLE) {
+    const resolved = variables[value.name.value];
+    if (Array.isArray(resolved)) {
+      return resolved.length;
+    }
+    return resolved !== null && typeof resolved === 'object' ? 1 : null;
+  }
+  return null;
+}
+
+/**
+ * Works out what each root field of a mutation would touch without running it.
+ * `update_*` / `delete_*` fields with a `where` argument are counted with a matching
+ * `<table>_aggregate` query that reuses the same filter (and the variables it references);
+ * inserts are sized from their `objects` argument, and `_by_pk` fields touch at most one row.
+ */
+export async function previewMutation(
+  document: DocumentNode,
+  variables: Record<string, unknown> | undefined,
+  schema: IntrospectionSchema | null,
+  makeGqlRequest: MakeGqlRequest,
+  requestHeaders?: Record<string, string>
+): Promise<MutationFieldPreview[]> {
+  const vars = variables || {};
+  const queryRoot = schema?.queryType
+    ? schema.types.find(t => t.name === schema.queryType.name) as IntrospectionObjectType | undefined
+    : undefined;
+  const hasQueryField = (name: string) => !queryRoot || queryRoot.fields.some(f => f.name === name);
+
+  const variableDefinitions = new Map<string, string>();
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.OPERATION_DEFINITION && definition.operation === OperationTypeNode.MUTATION) {
+      for (const variableDefinition of definition.variableDefinitions || []) {
+        variableDefinitions.set(variableDefinition.variable.name.value, print(variableDefinition));
+      }
+    }
+  }
+
+  const previews: MutationFieldPreview[] = [];
+  const counts: Array<{ preview: MutationFieldPreview; table: string; where: ValueNode }> = [];
+
+  for (const field of getRootFields(document, OperationTypeNode.MUTATION)) {
+    const name = field.name.value;
+    const preview: MutationFieldPreview = {
+      field: name,
+      ...(field.alias && { alias: field.alias.value }),
+      action: 'other',
+      affectedRows: null,
+    };
+    previews.push(preview);
+
+    const byPkMatch = name.match(/^(update|delete)_(.+)_by_pk$/);
+    const manyMatch = name.match(/^update_(.+)_many$/);
+    const filteredMatch = name.match(/^(update|delete)_(.+)$/);
+    const insertMatch = name.match(/^insert_(.+?)(_one)?$/);
+
+    if (byPkMatch) {
+      preview.action = byPkMatch[1] as 'update' | 'delete';
+      preview.table = byPkMatch[2];
+      preview.affectedRows = 1;
+      preview.note = 'Targets a single row by primary key (0 rows if it does not exist).';
+    } else if (manyMatch && !getArgument(field, 'where')) {
+      preview.action = 'update';
+      preview.table = manyMatch[1];
+      preview.note = `Batched update; affected rows are not previewed. Count each 'where' with ${manyMatch[1]}_aggregate before confirming.`;
+    } else if (filteredMatch) {
+      preview.action = filteredMatch[1] as 'update' | 'delete';
+      preview.table = filteredMatch[2];
+      const where = getArgument(field, 'where');
+      if (!where) {
+        preview.note = "No 'where' argument found; affected rows could not be determined.";
+      } else {
+        if (isEmptyObject(where, vars)) {
+          preview.warning = `Empty 'where' filter: this ${preview.action} applies to EVERY row of '${preview.table}'.`;
+        }
+        if (hasQueryField(`${preview.table}_aggregate`)) {
+          counts.push({ preview, table: preview.table, where });
+        } else {
+          preview.note = `'${preview.table}_aggregate' is not available, so affected rows could not be counted.`;
+        }
+      }
+    } else if (insertMatch) {
+      preview.action = 'insert';
+      preview.table = insertMatch[1];
+      preview.affectedRows = insertMatch[2] ? 1 : countListValue(getArgument(field, 'objects'), vars);
+      preview.note = 'Rows to insert, before any on_conflict handling.';
+    } else {
+      preview.note = 'Custom mutation or action; its effect cannot be previewed.';
+    }
+  }
+
+  if (counts.length > 0) {
+    const usedVariables = new Set<string>();
+    const selections = counts.map(({ table, where }, i) => {
+      getVariableNames(where).forEach(v => usedVariables.add(v));
+      return `c${i}: ${table}_aggregate(where: ${print(where)}) { aggregate { count } }`;
+    });
+    const definitions = Array.from(usedVariables)
+      .map(v => variableDefinitions.get(v))
+      .filter((d): d is string => Boolean(d));
+    const countQuery = `query MutationDryRun${definitions.length ? `(${definitions.join(', ')})` : ''} { ${selections.join(' ')} }`;
+    const countVariables = Object.fromEntries(Array.from(usedVariables).filter(v => v in vars).map(v => [v, vars[v]]));
+
+    try {
+      const result = await makeGqlRequest(countQuery, countVariables, requestHeaders);
+      counts.forEach(({ preview }, i) => {
+        const count = result?.[`c${i}`]?.aggregate?.count;
+        preview.affectedRows = typeof count === 'number' ? count : null;
+      });
+    } catch (error: any) {
+      logger.warn(`Mutation dry-run count query failed: ${error.message}`);
+      counts.forEach(({ preview }) => {
+        preview.note = `Count query failed: ${error.message}`;
+      });
+    }
+  }
+
+  return previews;
+}
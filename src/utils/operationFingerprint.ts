@@ -0,0 +1,37 @@
+import { createHash } from 'node:crypto';
+import { DocumentNode, print, stripIgnoredCharacters } from 'graphql';
+
+/**
+ * JSON.stringify with object keys sorted, so equal values always serialise the same way.
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(v => stableStringify(v === undefined ? null : v)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Prints a document in a canonical single-line form, ignoring whitespace and comments.
+ */
+export function normalizeDocument(document: DocumentNode): string {
+  return stripIgnoredCharacters(print(document));
+}
+
+/**
+ * SHA-256 over the normalized document and its variables.
+ */
+export function fingerprintOperation(document: DocumentNode, variables?: Record<string, unknown>): string {
+  return createHash('sha256')
+    .update(normalizeDocument(document))
+    .update('\n')
+    .update(stableStringify(variables || {}))
+    .digest('hex');
+}
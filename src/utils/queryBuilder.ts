@@ -0,0 +1,94 @@
+import { IntrospectionField, IntrospectionObjectType, IntrospectionSchema } from 'graphql';
+import { findObjectType, getNamedTypeRef, getScalarFieldNames, typeRefToString } from "./introspection.js";
+
+/**
+ * Structured selection on a table or relationship, as accepted by `build_query`.
+ */
+export interface SelectionInput {
+  columns?: string[];
+  where?: Record<string, unknown>;
+  orderBy?: Record<string, unknown> | Array<Record<string, unknown>>;
+  limit?: number;
+  offset?: number;
+  distinctOn?: string[];
+  relationships?: Record<string, SelectionInput>;
+}
+
+export interface BuiltQuery {
+  query: string;
+  variables: Record<string, unknown>;
+}
+
+// Structured input keys and the Hasura argument each one maps to.
+const ARGUMENTS: Array<[keyof SelectionInput, string]> = [
+  ['where', 'where'],
+  ['orderBy', 'order_by'],
+  ['limit', 'limit'],
+  ['offset', 'offset'],
+  ['distinctOn', 'distinct_on'],
+];
+
+/**
+ * Generates a Hasura select query from structured input. Every argument is passed as a
+ * variable declared with the exact type from the schema, e.g. `$where: users_bool_exp`.
+ * Unknown tables, columns, relationships or unsupported arguments throw with the valid names.
+ */
+export function buildSelectQuery(schema: IntrospectionSchema, tableName: string, selection: SelectionInput, operationName: string = 'BuildQuery'): BuiltQuery {
+  const queryRoot = schema.queryType ? findObjectType(schema, schema.queryType.name) : undefined;
+  const rootField = queryRoot?.fields.find(f => f.name === tableName);
+  if (!rootField || getNamedTypeRef(rootField.type).kind !== 'OBJECT') {
+    throw new Error(`Table '${tableName}' is not a query root field. Use 'list_tables' to find table names.`);
+  }
+
+  const variableDefinitions: string[] = [];
+  const variables: Record<string, unknown> = {};
+
+  const buildField = (field: IntrospectionField, input: SelectionInput, path: string[], indent: string): string => {
+    const args: string[] = [];
+    for (const [inputKey, argName] of ARGUMENTS) {
+      const value = input[inputKey];
+      if (value === undefined) {
+        continue;
+      }
+      const arg = field.args.find(a => a.name === argName);
+      if (!arg) {
+        throw new Error(`'${path.join('.')}' does not accept '${inputKey}' (${argName}). Supported arguments: ${field.args.map(a => a.name).join(', ') || 'none'}.`);
+      }
+      const variableName = [...path, argName].join('_');
+      variableDefinitions.push(`$${variableName}: ${typeRefToString(arg.type)}`);
+      variables[variableName] = value;
+      args.push(`${argName}: $${variableName}`);
+    }
+
+    const objectType = findObjectType(schema, getNamedTypeRef(field.type).name) as IntrospectionObjectType;
+    const selections = buildSelectionSet(objectType, input, path, `${indent}  `);
+    return `${indent}${field.name}${args.length ? `(${args.join(', ')})` : ''} {\n${selections}\n${indent}}`;
+  };
+
+  const buildSelectionSet = (objectType: IntrospectionObjectType, input: SelectionInput, path: string[], indent: string): string => {
+    const scalarNames = getScalarFieldNames(objectType);
+    const columns = input.columns?.length ? input.columns : scalarNames;
+    const unknownColumns = columns.filter(c => !scalarNames.includes(c));
+    if (unknownColumns.length > 0) {
+      throw new Error(`Unknown column(s) on '${objectType.name}': ${unknownColumns.join(', ')}. Available columns: ${scalarNames.join(', ')}.`);
+    }
+
+    const lines = columns.map(c => `${indent}${c}`);
+    for (const [name, nested] of Object.entries(input.relationships || {})) {
+      const field = objectType.fields.find(f => f.name === name);
+      if (!field || getNamedTypeRef(field.type).kind !== 'OBJECT') {
+        const relationshipNames = objectType.fields.filter(f => getNamedTypeRef(f.type).kind === 'OBJECT').map(f => f.name);
+        throw new Error(`Unknown relationship '${name}' on '${objectType.name}'. Available relationships: ${relationshipNames.join(', ') || 'none'}.`);
+      }
+      lines.push(buildField(field, nested, [...path, name], indent));
+    }
+    return lines.join('\n');
+  };
+
+  const body = buildField(rootField, selection, [tableName], '  ');
+  const definitions = variableDefinitions.length ? `(${variableDefinitions.join(', ')})` : '';
+  return {
+    query: `query ${operationName}${definitions} {\n${body}\n}`,
+    variables,
+  };
+}
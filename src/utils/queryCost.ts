@@ -0,0 +1,247 @@
+import {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  getNamedType,
+  getNullableType,
+  GraphQLCompositeType,
+  GraphQLSchema,
+  IntrospectionSchema,
+  isCompositeType,
+  isListType,
+  isObjectType,
+  isInterfaceType,
+  Kind,
+  OperationTypeNode,
+  print,
+  SelectionSetNode,
+  visit,
+} from 'graphql';
+import { getClientSchema } from "./graphqlValidation.js";
+
+/** Limit added to unbounded list fields in the suggested rewrite. */
+export const SUGGESTED_LIST_LIMIT = 10;
+
+export interface QueryCostLimits {
+  maxDepth: number;
+  maxUnboundedLists: number;
+  maxEstimatedRows: number;
+  /** Rows assumed for a list field without a limit when estimating the fan-out. */
+  assumedListSize: number;
+}
+
+export interface UnboundedListField {
+  /** Response path of the list, e.g. 'users.posts'. */
+  path: string;
+  /** The field that takes the missing `limit` argument, usually the list itself. */
+  limitField: string;
+}
+
+export interface QueryCost {
+  /** Deepest field nesting; a root field is at depth 1. */
+  depth: number;
+  unboundedLists: UnboundedListField[];
+  /** Upper estimate of the objects (rows) in the result, multiplied out along nested lists. */
+  estimatedRows: number;
+}
+
+interface Walk {
+  schema: GraphQLSchema;
+  fragments: Map<string, FragmentDefinitionNode>;
+  variables: Record<string, unknown>;
+  assumedListSize: number;
+  cost: QueryCost;
+  /** Fields a `limit` argument should be added to, for the suggested rewrite. */
+  limitTargets: Set<FieldNode>;
+}
+
+// A literal or variable `limit` argument; null and missing variables mean no limit, as in Hasura.
+function getLimit(field: FieldNode, variables: Record<string, unknown>): number | undefined {
+  const argument = field.arguments?.find(a => a.name.value === 'limit');
+  if (!argument) {
+    return undefined;
+  }
+  if (argument.value.kind === Kind.INT) {
+    return Number(argument.value.value);
+  }
+  if (argument.value.kind === Kind.VARIABLE) {
+    const value = variables[argument.value.name.value];
+    return typeof value === 'number' ? value : undefined;
+  }
+  return undefined;
+}
+
+function walkSelectionSet(
+  walk: Walk,
+  selectionSet: SelectionSetNode,
+  parentType: GraphQLCompositeType,
+  depth: number,
+  rows: number,
+  path: string,
+  // Limit given to an enclosing non-list field, e.g. `users_aggregate(limit: 5) { nodes { id } }`.
+  inherited: { field: FieldNode; limit?: number } | undefined,
+  visitedFragments: Set<string>
+): void {
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const typeCondition = selection.typeCondition ? walk.schema.getType(selection.typeCondition.name.value) : parentType;
+      if (typeCondition && isCompositeType(typeCondition)) {
+        walkSelectionSet(walk, selection.selectionSet, typeCondition, depth, rows, path, inherited, visitedFragments);
+      }
+      continue;
+    }
+    if (selection.kind === Kind.FRAGMENT_SPREAD) {
+      const fragmentName = selection.name.value;
+      const fragment = walk.fragments.get(fragmentName);
+      const typeCondition = fragment && walk.schema.getType(fragment.typeCondition.name.value);
+      if (fragment && typeCondition && isCompositeType(typeCondition) && !visitedFragments.has(fragmentName)) {
+        walkSelectionSet(walk, fragment.selectionSet, typeCondition, depth, rows, path, inherited, new Set(visitedFragments).add(fragmentName));
+      }
+      continue;
+    }
+
+    if (selection.name.value === '__typename') {
+      continue;
+    }
+    walk.cost.depth = Math.max(walk.cost.depth, depth);
+    const fieldDef = isObjectType(parentType) || isInterfaceType(parentType)
+      ? parentType.getFields()[selection.name.value]
+      : undefined;
+    if (!fieldDef || !selection.selectionSet) {
+      continue;
+    }
+    const namedType = getNamedType(fieldDef.type);
+    if (!isCompositeType(namedType)) {
+      continue;
+    }
+
+    const fieldPath = path ? `${path}.${selection.alias?.value ?? selection.name.value}` : (selection.alias?.value ?? selection.name.value);
+    const takesLimit = fieldDef.args.some(a => a.name === 'limit');
+    const limit = takesLimit ? getLimit(selection, walk.variables) : undefined;
+    let fieldRows = rows;
+    let childInherited: typeof inherited;
+    if (isListType(getNullableType(fieldDef.type))) {
+      // A list without a limit argument of its own is bounded by an enclosing aggregate's limit.
+      const limitSource = takesLimit ? { field: selection, limit } : inherited;
+      const size = limitSource?.limit ?? walk.assumedListSize;
+      if (limitSource && limitSource.limit === undefined) {
+        walk.cost.unboundedLists.push({ path: fieldPath, limitField: limitSource.field.name.value });
+        walk.limitTargets.add(limitSource.field);
+      }
+      fieldRows = rows * size;
+    } else if (takesLimit) {
+      childInherited = { field: selection, limit };
+    }
+    walk.cost.estimatedRows += fieldRows;
+    walkSelectionSet(walk, selection.selectionSet, namedType, depth + 1, fieldRows, fieldPath, childInherited, visitedFragments);
+  }
+}
+
+function analyze(document: DocumentNode, schema: GraphQLSchema, variables: Record<string, unknown>, assumedListSize: number) {
+  const walk: Walk = {
+    schema,
+    fragments: new Map(),
+    variables,
+    assumedListSize,
+    cost: { depth: 0, unboundedLists: [], estimatedRows: 0 },
+    limitTargets: new Set(),
+  };
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      walk.fragments.set(definition.name.value, definition);
+    }
+  }
+  const queryType = schema.getQueryType();
+  for (const definition of document.definitions) {
+    if (queryType && definition.kind === Kind.OPERATION_DEFINITION && definition.operation === OperationTypeNode.QUERY) {
+      walkSelectionSet(walk, definition.selectionSet, queryType, 1, 1, '', undefined, new Set());
+    }
+  }
+  return walk;
+}
+
+/**
+ * Computes the selection depth, the list fields selected without a `limit` and the estimated
+ * row fan-out of the queries in a document. Lists without a limit are counted as
+ * `assumedListSize` rows. Nothing is sent to Hasura.
+ */
+export function analyzeQueryCost(
+  document: DocumentNode,
+  introspectionSchema: IntrospectionSchema,
+  variables: Record<string, unknown>,
+  assumedListSize: number
+): QueryCost {
+  return analyze(document, getClientSchema(introspectionSchema), variables, assumedListSize).cost;
+}
+
+/**
+ * Describes every limit the query cost exceeds; an empty list means the query may run.
+ */
+export function findCostViolations(cost: QueryCost, limits: QueryCostLimits): string[] {
+  const violations: string[] = [];
+  if (cost.depth > limits.maxDepth) {
+    violations.push(`Selection depth ${cost.depth} exceeds the maximum of ${limits.maxDepth}. Select fewer nested relationships.`);
+  }
+  if (cost.unboundedLists.length > limits.maxUnboundedLists) {
+    violations.push(`${cost.unboundedLists.length} list field(s) have no limit (${cost.unboundedLists.map(l => l.path).join(', ')}); at most ${limits.maxUnboundedLists} may. Add a 'limit' argument to them.`);
+  }
+  if (cost.estimatedRows > limits.maxEstimatedRows) {
+    violations.push(`The query may return about ${cost.estimatedRows} rows, more than the maximum of ${limits.maxEstimatedRows}. Lower the limits of nested lists or paginate.`);
+  }
+  return violations;
+}
+
+/**
+ * Returns the document with `limit: SUGGESTED_LIST_LIMIT` added to every unbounded list field,
+ * or null when there is nothing to add.
+ */
+export function suggestLimitedQuery(
+  document: DocumentNode,
+  introspectionSchema: IntrospectionSchema,
+  variables: Record<string, unknown>,
+  assumedListSize: number
+): string | null {
+  const { limitTargets } = analyze(document, getClientSchema(introspectionSchema), variables, assumedListSize);
+  if (limitTargets.size === 0) {
+    return null;
+  }
+  const rewritten = visit(document, {
+    Field(node) {
+      if (!limitTargets.has(node)) {
+        return undefined;
+      }
+      const otherArguments = (node.arguments ?? []).filter(a => a.name.value !== 'limit');
+      return {
+        ...node,
+        arguments: [
+          ...otherArguments,
+          {
+            kind: Kind.ARGUMENT,
+            name: { kind: Kind.NAME, value: 'limit' },
+            value: { kind: Kind.INT, value: String(SUGGESTED_LIST_LIMIT) },
+          },
+        ],
+      };
+    },
+  });
+  return print(rewritten);
+}
+
+/**
+ * Formats a rejected query as an MCP tool error result.
+ */
+export function queryCostErrorResult(cost: QueryCost, limits: QueryCostLimits, violations: string[], suggestedQuery: string | null) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        error: `Query rejected by the cost guard: ${violations.length} limit(s) exceeded. Nothing was sent to Hasura.`,
+        violations,
+        cost,
+        limits,
+        ...(suggestedQuery && { suggestedQuery }),
+      }, null, 2)
+    }],
+    isError: true,
+  };
+}
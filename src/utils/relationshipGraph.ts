@@ -0,0 +1,118 @@
+import { IntrospectionSchema } from 'graphql';
+import { findObjectType, getNamedTypeRef, isListTypeRef } from "./introspection.js";
+import { isTableRootFieldName } from "./tableSummary.js";
+
+export interface RelationshipEdge {
+  from: string;
+  to: string;
+  /** The relationship field on `from`. */
+  field: string;
+  type: 'object' | 'array';
+}
+
+export interface RelationshipGraph {
+  tables: string[];
+  relationships: RelationshipEdge[];
+}
+
+/**
+ * Maps the query root's table fields to their GraphQL type names, e.g. `users` to `users`
+ * or a custom root field `allUsers` to `users`.
+ */
+function getTableTypesByRootField(schema: IntrospectionSchema): Map<string, string> {
+  const queryRoot = schema.queryType ? findObjectType(schema, schema.queryType.name) : undefined;
+  const tableTypes = new Map<string, string>();
+  for (const field of queryRoot?.fields || []) {
+    const namedType = getNamedTypeRef(field.type);
+    if (isTableRootFieldName(field.name) && namedType.kind === 'OBJECT') {
+      tableTypes.set(field.name, namedType.name);
+    }
+  }
+  return tableTypes;
+}
+
+/**
+ * Finds object and array relationships between table types: every field of a table type
+ * whose type is another table type. Aggregate fields are skipped.
+ */
+export function buildRelationshipGraph(schema: IntrospectionSchema): RelationshipGraph {
+  const tableTypeNames = new Set(getTableTypesByRootField(schema).values());
+  const relationships: RelationshipEdge[] = [];
+  for (const tableName of tableTypeNames) {
+    const tableType = findObjectType(schema, tableName);
+    for (const field of tableType?.fields || []) {
+      const target = getNamedTypeRef(field.type).name;
+      if (tableTypeNames.has(target)) {
+        relationships.push({ from: tableName, to: target, field: field.name, type: isListTypeRef(field.type) ? 'array' : 'object' });
+      }
+    }
+  }
+  return {
+    tables: Array.from(tableTypeNames).sort((a, b) => a.localeCompare(b)),
+    relationships,
+  };
+}
+
+/**
+ * Keeps only the tables reachable from `startTable` by following at most `depth` relationships.
+ * `startTable` may be a table type name or a query root field name.
+ */
+export function limitRelationshipGraph(schema: IntrospectionSchema, graph: RelationshipGraph, startTable: string, depth: number): RelationshipGraph {
+  const start = graph.tables.includes(startTable) ? startTable : getTableTypesByRootField(schema).get(startTable);
+  if (!start) {
+    throw new Error(`Table '${startTable}' not found in schema. Use 'list_tables' to find table names.`);
+  }
+
+  const reached = new Set([start]);
+  let frontier = [start];
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    const next: string[] = [];
+    for (const edge of graph.relationships) {
+      if (frontier.includes(edge.from) && !reached.has(edge.to)) {
+        reached.add(edge.to);
+        next.push(edge.to);
+      }
+    }
+    frontier = next;
+  }
+
+  // Keep edges between reached tables only if their source was expanded, so the
+  // outermost tables do not pull in their own relationships.
+  const expanded = new Set(Array.from(reached).filter(t => !frontier.includes(t)));
+  return {
+    tables: graph.tables.filter(t => reached.has(t)),
+    relationships: graph.relationships.filter(e => expanded.has(e.from) && reached.has(e.to)),
+  };
+}
+
+/**
+ * Renders the graph as a Mermaid ER diagram.
+ */
+export function toMermaid(graph: RelationshipGraph): string {
+  const lines = ['erDiagram'];
+  for (const table of graph.tables) {
+    if (!graph.relationships.some(e => e.from === table || e.to === table)) {
+      lines.push(`  ${table}`);
+    }
+  }
+  for (const edge of graph.relationships) {
+    const cardinality = edge.type === 'array' ? '||--o{' : '}o--||';
+    lines.push(`  ${edge.from} ${cardinality} ${edge.to} : "${edge.field}"`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Renders the graph as Graphviz DOT.
+ */
+export function toDot(graph: RelationshipGraph): string {
+  const lines = ['digraph relationships {', '  rankdir=LR;', '  node [shape=box];'];
+  for (const table of graph.tables) {
+    lines.push(`  "${table}";`);
+  }
+  for (const edge of graph.relationships) {
+    lines.push(`  "${edge.from}" -> "${edge.to}" [label="${edge.field} (${edge.type})"${edge.type === 'array' ? ', arrowhead=crow' : ''}];`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
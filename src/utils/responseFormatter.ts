@@ -0,0 +1,264 @@
+import { z } from "zod";
+import { collectColumns, flattenRow } from "./exportFormats.js";
+import { logger } from "../logger.js";
+
+export const RESPONSE_FORMATS = ['json', 'compact', 'markdown'] as const;
+export type ResponseFormat = typeof RESPONSE_FORMATS[number];
+
+/** Rough bytes-per-token ratio used to turn a token budget into a byte budget. */
+export const BYTES_PER_TOKEN = 4;
+
+/** Shortest a string is cut to while shrinking a response to fit the budget. */
+const MIN_STRING_LENGTH = 32;
+
+/** Cuts listed in a response; any further ones are only counted. */
+const MAX_LISTED_CUTS = 20;
+
+export interface ResponseLimits {
+  /** Budget for the serialized response text, in bytes. */
+  maxBytes: number;
+  /** Strings longer than this are cut first when the response does not fit the budget uncut. */
+  maxStringLength: number;
+}
+
+export interface Truncation {
+  /** JSON path of the value that was cut, e.g. `$.users[3].bio`. */
+  path: string;
+  kind: 'array' | 'string';
+  originalLength: number;
+  keptLength: number;
+}
+
+export interface ShapedResponse {
+  text: string;
+  truncations: Truncation[];
+}
+
+/**
+ * Input field added to every tool to choose how its result is rendered.
+ */
+export const responseInputShape = {
+  responseFormat: z.enum(RESPONSE_FORMATS).optional().describe("Optional. How to render the result: 'json' (indented), 'compact' (minified JSON) or 'markdown' (tables for lists of rows). Defaults to the server's setting."),
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function longestArray(value: unknown): number {
+  if (Array.isArray(value)) {
+    return value.reduce((max: number, item) => Math.max(max, longestArray(item)), value.length);
+  }
+  if (isPlainObject(value)) {
+    return Object.values(value).reduce((max: number, item) => Math.max(max, longestArray(item)), 0);
+  }
+  return 0;
+}
+
+/**
+ * Copies `value` with every array cut to `maxItems` and every string cut to `maxStringLength`,
+ * recording each cut in `truncations`.
+ */
+function cutValue(value: unknown, maxItems: number, maxStringLength: number, path: string, truncations: Truncation[]): unknown {
+  if (typeof value === 'string') {
+    if (value.length <= maxStringLength) {
+      return value;
+    }
+    truncations.push({ path, kind: 'string', originalLength: value.length, keptLength: maxStringLength });
+    return `${value.slice(0, maxStringLength)}…`;
+  }
+  if (Array.isArray(value)) {
+    if (value.length > maxItems) {
+      truncations.push({ path, kind: 'array', originalLength: value.length, keptLength: maxItems });
+    }
+    return value.slice(0, maxItems).map((item, i) => cutValue(item, maxItems, maxStringLength, childPath(path, i), truncations));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cutValue(item, maxItems, maxStringLength, childPath(path, key), truncations)]));
+  }
+  return value;
+}
+
+function truncationNotice(truncations: Truncation[]) {
+  return {
+    message: "Cut to fit the response budget. For full results narrow the query, page through it (e.g. 'paginate_table') or use 'export_query'.",
+    cuts: truncations.slice(0, MAX_LISTED_CUTS),
+    ...(truncations.length > MAX_LISTED_CUTS && { moreCuts: truncations.length - MAX_LISTED_CUTS }),
+  };
+}
+
+function markdownCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function markdownTable(rows: Array<Record<string, unknown>>): string {
+  const flatRows = rows.map(row => flattenRow(row));
+  const columns = collectColumns(flatRows);
+  return [
+    `| ${columns.map(markdownCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...flatRows.map(row => `| ${columns.map(c => markdownCell(row[c])).join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * Renders lists of objects as Markdown tables headed by their JSON path; every other leaf is
+ * listed as `path: value`.
+ */
+function renderMarkdown(value: unknown, truncations: Truncation[]): string {
+  const sections: string[] = [];
+  const leaves: string[] = [];
+  const walk = (node: unknown, path: string) => {
+    if (Array.isArray(node) && node.length > 0 && node.every(isPlainObject)) {
+      sections.push(`### ${path}\n\n${markdownTable(node)}`);
+    } else if (isPlainObject(node) && Object.keys(node).length > 0) {
+      for (const [key, item] of Object.entries(node)) {
+        walk(item, childPath(path, key));
+      }
+    } else {
+      leaves.push(`- \`${path}\`: ${markdownCell(node) || JSON.stringify(node ?? null)}`);
+    }
+  };
+  walk(value, '$');
+
+  const parts = [...(leaves.length > 0 ? [leaves.join('\n')] : []), ...sections];
+  if (truncations.length > 0) {
+    const notice = truncationNotice(truncations);
+    parts.push([
+      `> ${notice.message}`,
+      '',
+      ...notice.cuts.map(t => `- \`${t.path}\`: ${t.kind} cut from ${t.originalLength} to ${t.keptLength}`),
+      ...(notice.moreCuts ? [`- …and ${notice.moreCuts} more`] : []),
+    ].join('\n'));
+  }
+  return parts.join('\n\n');
+}
+
+function render(value: unknown, truncations: Truncation[], format: ResponseFormat): string {
+  if (format === 'markdown') {
+    return renderMarkdown(value, truncations);
+  }
+  const withNotice = truncations.length === 0
+    ? value
+    : isPlainObject(value)
+      ? { ...value, _truncated: truncationNotice(truncations) }
+      : { data: value, _truncated: truncationNotice(truncations) };
+  return format === 'compact' ? JSON.stringify(withNotice) : JSON.stringify(withNotice, null, 2);
+}
+
+/**
+ * Cuts a text that is not JSON (an SDL document, a diagram) to the byte budget.
+ */
+export function shapeText(text: string, limits: ResponseLimits): ShapedResponse {
+  const bytes = Buffer.byteLength(text);
+  if (bytes <= limits.maxBytes) {
+    return { text, truncations: [] };
+  }
+  // Leave room for the note; slicing by characters keeps multi-byte characters whole.
+  let kept = text.slice(0, Math.max(0, limits.maxBytes - 200));
+  while (Buffer.byteLength(kept) > limits.maxBytes - 200 && kept.length > 0) {
+    kept = kept.slice(0, Math.floor(kept.length * 0.9));
+  }
+  return {
+    text: `${kept}\n\n[Truncated: ${Buffer.byteLength(kept)} of ${bytes} bytes shown to fit the response budget.]`,
+    truncations: [{ path: '$', kind: 'string', originalLength: text.length, keptLength: kept.length }],
+  };
+}
+
+/**
+ * Renders `value` in `format` within the byte budget. A value that fits is returned uncut;
+ * otherwise long strings are cut to `maxStringLength`; if the result is still too large,
+ * arrays are cut to the largest common length that fits, keeping at least one item, then
+ * strings are shortened further. Every cut is reported with its JSON
+ * path, in a `_truncated` entry (JSON) or a closing note (Markdown).
+ */
+export function shapeValue(value: unknown, limits: ResponseLimits, format: ResponseFormat): ShapedResponse {
+  const attempt = (maxItems: number, maxStringLength: number): ShapedResponse => {
+    const truncations: Truncation[] = [];
+    const cut = cutValue(value, maxItems, maxStringLength, '$', truncations);
+    return { text: render(cut, truncations, format), truncations };
+  };
+  const fits = (response: ShapedResponse) => Buffer.byteLength(response.text) <= limits.maxBytes;
+
+  const longest = longestArray(value);
+  const uncut = attempt(longest, Infinity);
+  if (fits(uncut)) {
+    return uncut;
+  }
+  const full = attempt(longest, limits.maxStringLength);
+  if (fits(full)) {
+    return full;
+  }
+
+  // Largest array length that fits, by binary search. An empty array would hide even the
+  // shape of the rows, so at least one item is kept.
+  let low = Math.min(1, longest);
+  let high = longest;
+  let best: ShapedResponse | null = null;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const response = attempt(mid, limits.maxStringLength);
+    if (fits(response)) {
+      best = response;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  if (best) {
+    return best;
+  }
+
+  // Even one item per array does not fit: shorten strings.
+  low = MIN_STRING_LENGTH;
+  high = limits.maxStringLength;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const response = attempt(1, mid);
+    if (fits(response)) {
+      best = response;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return best ?? shapeText(attempt(1, MIN_STRING_LENGTH).text, limits);
+}
+
+/**
+ * Applies the response budget to a tool result. Text that parses as JSON is shaped with
+ * `shapeValue` and rendered in `format`; any other text is cut with `shapeText`.
+ */
+export function shapeToolResult<R extends { content: Array<{ type: "text"; text: string }> }>(
+  result: R,
+  limits: ResponseLimits,
+  format: ResponseFormat
+): R {
+  const content = result.content.map(item => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(item.text);
+    } catch {
+      return { ...item, text: shapeText(item.text, limits).text };
+    }
+    const shaped = parsed !== null && typeof parsed === 'object'
+      ? shapeValue(parsed, limits, format)
+      : shapeText(item.text, limits);
+    if (shaped.truncations.length > 0) {
+      logger.warn(`Response cut to fit the ${limits.maxBytes}-byte budget (${shaped.truncations.length} cut(s), first at ${shaped.truncations[0].path}).`);
+    }
+    return { ...item, text: shaped.text };
+  });
+  return { ...result, content };
+}
@@ -0,0 +1,135 @@
+import {
+  IntrospectionEnumType,
+  IntrospectionField,
+  IntrospectionInputObjectType,
+  IntrospectionInputValue,
+  IntrospectionObjectType,
+  IntrospectionSchema,
+  IntrospectionType,
+} from 'graphql';
+import { typeRefToString } from "./introspection.js";
+
+export interface SchemaChange {
+  change: 'added' | 'removed' | 'changed';
+  target: 'type' | 'field' | 'argument' | 'inputField' | 'enumValue';
+  /** `Type`, `Type.field`, `Type.field(arg)` or `Type.VALUE` */
+  path: string;
+  breaking: boolean;
+  detail: string;
+}
+
+export interface SchemaDiff {
+  changes: SchemaChange[];
+  summary: { added: number; removed: number; changed: number; breaking: number };
+}
+
+function isRequired(input: IntrospectionInputValue): boolean {
+  return input.type.kind === 'NON_NULL' && input.defaultValue == null;
+}
+
+function diffInputValues(
+  changes: SchemaChange[],
+  target: 'argument' | 'inputField',
+  pathOf: (name: string) => string,
+  oldValues: readonly IntrospectionInputValue[],
+  newValues: readonly IntrospectionInputValue[]
+) {
+  const oldByName = new Map(oldValues.map(v => [v.name, v]));
+  const newByName = new Map(newValues.map(v => [v.name, v]));
+  for (const [name, oldValue] of oldByName) {
+    const newValue = newByName.get(name);
+    if (!newValue) {
+      changes.push({ change: 'removed', target, path: pathOf(name), breaking: true, detail: `${target === 'argument' ? 'Argument' : 'Input field'} removed.` });
+    } else if (typeRefToString(oldValue.type) !== typeRefToString(newValue.type)) {
+      changes.push({ change: 'changed', target, path: pathOf(name), breaking: true, detail: `Type changed from ${typeRefToString(oldValue.type)} to ${typeRefToString(newValue.type)}.` });
+    }
+  }
+  for (const [name, newValue] of newByName) {
+    if (!oldByName.has(name)) {
+      const required = isRequired(newValue);
+      changes.push({ change: 'added', target, path: pathOf(name), breaking: required, detail: `${required ? 'Required' : 'Optional'} ${target === 'argument' ? 'argument' : 'input field'} of type ${typeRefToString(newValue.type)} added.` });
+    }
+  }
+}
+
+function diffFields(changes: SchemaChange[], typeName: string, oldFields: readonly IntrospectionField[], newFields: readonly IntrospectionField[]) {
+  const oldByName = new Map(oldFields.map(f => [f.name, f]));
+  const newByName = new Map(newFields.map(f => [f.name, f]));
+  for (const [name, oldField] of oldByName) {
+    const newField = newByName.get(name);
+    const path = `${typeName}.${name}`;
+    if (!newField) {
+      changes.push({ change: 'removed', target: 'field', path, breaking: true, detail: 'Field removed.' });
+      continue;
+    }
+    if (typeRefToString(oldField.type) !== typeRefToString(newField.type)) {
+      changes.push({ change: 'changed', target: 'field', path, breaking: true, detail: `Type changed from ${typeRefToString(oldField.type)} to ${typeRefToString(newField.type)}.` });
+    }
+    diffInputValues(changes, 'argument', arg => `${path}(${arg})`, oldField.args, newField.args);
+  }
+  for (const [name, newField] of newByName) {
+    if (!oldByName.has(name)) {
+      changes.push({ change: 'added', target: 'field', path: `${typeName}.${name}`, breaking: false, detail: `Field of type ${typeRefToString(newField.type)} added.` });
+    }
+  }
+}
+
+function diffType(changes: SchemaChange[], oldType: IntrospectionType, newType: IntrospectionType) {
+  if (oldType.kind !== newType.kind) {
+    changes.push({ change: 'changed', target: 'type', path: oldType.name, breaking: true, detail: `Kind changed from ${oldType.kind} to ${newType.kind}.` });
+    return;
+  }
+  if (oldType.kind === 'OBJECT' || oldType.kind === 'INTERFACE') {
+    diffFields(changes, oldType.name, (oldType as IntrospectionObjectType).fields, (newType as IntrospectionObjectType).fields);
+  } else if (oldType.kind === 'INPUT_OBJECT') {
+    diffInputValues(changes, 'inputField', field => `${oldType.name}.${field}`, (oldType as IntrospectionInputObjectType).inputFields, (newType as IntrospectionInputObjectType).inputFields);
+  } else if (oldType.kind === 'ENUM') {
+    const oldValues = new Set((oldType as IntrospectionEnumType).enumValues.map(v => v.name));
+    const newValues = new Set((newType as IntrospectionEnumType).enumValues.map(v => v.name));
+    for (const value of oldValues) {
+      if (!newValues.has(value)) {
+        changes.push({ change: 'removed', target: 'enumValue', path: `${oldType.name}.${value}`, breaking: true, detail: 'Enum value removed.' });
+      }
+    }
+    for (const value of newValues) {
+      if (!oldValues.has(value)) {
+        changes.push({ change: 'added', target: 'enumValue', path: `${oldType.name}.${value}`, breaking: false, detail: 'Enum value added.' });
+      }
+    }
+  }
+}
+
+/**
+ * Structural diff of two introspection results. Removals, type changes and new required
+ * arguments or input fields are flagged as breaking; additions otherwise are not.
+ * Built-in `__*` types are ignored.
+ */
+export function diffSchemas(oldSchema: IntrospectionSchema, newSchema: IntrospectionSchema): SchemaDiff {
+  const changes: SchemaChange[] = [];
+  const oldTypes = new Map(oldSchema.types.filter(t => !t.name.startsWith('__')).map(t => [t.name, t]));
+  const newTypes = new Map(newSchema.types.filter(t => !t.name.startsWith('__')).map(t => [t.name, t]));
+
+  for (const [name, oldType] of oldTypes) {
+    const newType = newTypes.get(name);
+    if (!newType) {
+      changes.push({ change: 'removed', target: 'type', path: name, breaking: true, detail: `${oldType.kind} type removed.` });
+    } else {
+      diffType(changes, oldType, newType);
+    }
+  }
+  for (const [name, newType] of newTypes) {
+    if (!oldTypes.has(name)) {
+      changes.push({ change: 'added', target: 'type', path: name, breaking: false, detail: `${newType.kind} type added.` });
+    }
+  }
+
+  return {
+    changes,
+    summary: {
+      added: changes.filter(c => c.change === 'added').length,
+      removed: changes.filter(c => c.change === 'removed').length,
+      changed: changes.filter(c => c.change === 'changed').length,
+      breaking: changes.filter(c => c.breaking).length,
+    },
+  };
+}
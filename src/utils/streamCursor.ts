@@ -0,0 +1,71 @@
+import { IntrospectionField, IntrospectionObjectType, IntrospectionSchema } from 'graphql';
+import { findObjectType, getNamedTypeRef, getScalarFieldNames, typeRefToString } from "./introspection.js";
+
+export type StreamOrdering = 'asc' | 'desc';
+
+export interface StreamRequest {
+  columns?: string[];
+  cursorColumn: string;
+  startValue: unknown;
+  ordering: StreamOrdering;
+  where?: Record<string, unknown>;
+  batchSize: number;
+}
+
+/**
+ * Finds the `<table>_stream` field on the subscription root. Hasura only generates it when
+ * streaming subscriptions are enabled for the table and role.
+ */
+export function findStreamField(schema: IntrospectionSchema, tableName: string): IntrospectionField {
+  const subscriptionRoot = schema.subscriptionType ? findObjectType(schema, schema.subscriptionType.name) : undefined;
+  const streamFieldName = `${tableName}_stream`;
+  const field = subscriptionRoot?.fields.find(f => f.name === streamFieldName);
+  if (!field) {
+    const available = subscriptionRoot?.fields.filter(f => f.name.endsWith('_stream')).map(f => f.name.slice(0, -'_stream'.length)) ?? [];
+    throw new Error(`Table '${tableName}' has no '${streamFieldName}' subscription field. Tables that can be streamed: ${available.join(', ') || 'none'}.`);
+  }
+  return field;
+}
+
+/**
+ * Generates a `<table>_stream` subscription starting after `startValue` of `cursorColumn`.
+ * The cursor column is always selected so the next cursor can be read from the last row.
+ */
+export function buildStreamSubscription(schema: IntrospectionSchema, tableName: string, request: StreamRequest): { query: string; variables: Record<string, unknown> } {
+  const field = findStreamField(schema, tableName);
+  const rowType = findObjectType(schema, getNamedTypeRef(field.type).name) as IntrospectionObjectType;
+  const scalarNames = getScalarFieldNames(rowType);
+
+  if (!scalarNames.includes(request.cursorColumn)) {
+    throw new Error(`Unknown cursor column '${request.cursorColumn}' on '${tableName}'. Available columns: ${scalarNames.join(', ')}.`);
+  }
+  const columns = request.columns?.length ? request.columns : scalarNames;
+  const unknownColumns = columns.filter(c => !scalarNames.includes(c));
+  if (unknownColumns.length > 0) {
+    throw new Error(`Unknown column(s) on '${tableName}': ${unknownColumns.join(', ')}. Available columns: ${scalarNames.join(', ')}.`);
+  }
+  const selected = columns.includes(request.cursorColumn) ? columns : [request.cursorColumn, ...columns];
+
+  const argType = (name: string) => {
+    const arg = field.args.find(a => a.name === name);
+    if (!arg) {
+      throw new Error(`'${field.name}' does not accept '${name}'.`);
+    }
+    return typeRefToString(arg.type);
+  };
+
+  const variableDefinitions = [`$batch_size: ${argType('batch_size')}`, `$cursor: ${argType('cursor')}`];
+  const args = ['batch_size: $batch_size', 'cursor: $cursor'];
+  const variables: Record<string, unknown> = {
+    batch_size: request.batchSize,
+    cursor: [{ initial_value: { [request.cursorColumn]: request.startValue }, ordering: request.ordering.toUpperCase() }],
+  };
+  if (request.where) {
+    variableDefinitions.push(`$where: ${argType('where')}`);
+    args.push('where: $where');
+    variables.where = request.where;
+  }
+
+  const query = `subscription ReadStream(${variableDefinitions.join(', ')}) {\n  ${field.name}(${args.join(', ')}) {\n${selected.map(c => `    ${c}`).join('\n')}\n  }\n}`;
+  return { query, variables };
+}
@@ -0,0 +1,213 @@
+import { IntrospectionObjectType, IntrospectionSchema } from 'graphql';
+import { HasuraEndpoint } from "../types/IServerTool.js";
+import { findEnumType, findObjectType, getNamedTypeRef, isListTypeRef, typeRefToString } from "./introspection.js";
+import { findMetadataTable, MetadataComputedField, MetadataRelationship, MetadataTable } from "./hasuraMetadata.js";
+import { logger } from "../logger.js";
+
+export type TableFieldKind = 'column' | 'object_relationship' | 'array_relationship' | 'computed_field';
+
+export interface TableColumnSummary {
+  name: string;
+  type: string;
+  description: string | null;
+  args: Array<{ name: string; type: string; description: string | null }> | null;
+  kind: TableFieldKind;
+  /** GraphQL type of the related table, for relationships and table-returning computed fields. */
+  targetTable?: string;
+  /** True for the `<relationship>_aggregate` field of an array relationship. */
+  aggregate?: boolean;
+  isPrimaryKey?: boolean;
+}
+
+export interface UniqueConstraintSummary {
+  name: string;
+  columns: string[];
+  isPrimaryKey: boolean;
+}
+
+export interface TableSummary {
+  table: {
+    name: string;
+    schema: string;
+    description: string | null;
+    columns: TableColumnSummary[];
+    /** Columns of the primary key, from the `<table>_by_pk` root field arguments; null if there is none. */
+    primaryKey: string[] | null;
+    /** From the `<table>_constraint` enum; only present on schemas where the role can insert. */
+    uniqueConstraints: UniqueConstraintSummary[];
+    /** Present when the table was found in the Hasura metadata. */
+    source?: string;
+    sqlName?: string;
+    graphqlName?: string;
+    relationships?: MetadataRelationship[];
+    computedFields?: MetadataComputedField[];
+  };
+  /** Where the schema name and table details came from. */
+  basedOn: 'metadata' | 'introspection';
+}
+
+/**
+ * True for query_root fields that look like a table or view, i.e. not one of the
+ * generated aggregate, by-primary-key, stream or introspection fields.
+ */
+export function isTableRootFieldName(name: string): boolean {
+  return !(name.includes('_aggregate') ||
+    name.includes('_by_pk') ||
+    name.includes('_stream') ||
+    name.includes('_mutation') ||
+    name.startsWith('__'));
+}
+
+/**
+ * Names of the tables exposed on the query root, sorted. Only fields returning an
+ * object type are included, so custom scalar-returning actions are skipped.
+ */
+export function listTableNames(schema: IntrospectionSchema): string[] {
+  const queryRoot = schema.queryType ? findObjectType(schema, schema.queryType.name) : undefined;
+  if (!queryRoot) {
+    return [];
+  }
+  return queryRoot.fields
+    .filter(f => isTableRootFieldName(f.name) && getNamedTypeRef(f.type).kind === 'OBJECT')
+    .map(f => f.name)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Finds the object type behind a table name. Tries the exact name, then the
+ * `<schema>_<table>` name Hasura generates for non-public schemas, then the capitalized
+ * name (custom root field names often differ in case from the type).
+ */
+export function findTableType(schema: IntrospectionSchema, tableName: string, schemaName: string = 'public'): IntrospectionObjectType | undefined {
+  return findObjectType(schema, tableName)
+    ?? (schemaName !== 'public' ? findObjectType(schema, `${schemaName}_${tableName}`) : undefined)
+    ?? findObjectType(schema, tableName.charAt(0).toUpperCase() + tableName.slice(1));
+}
+
+/**
+ * Reads the primary key columns from the arguments of the first `*_by_pk` root field that exists.
+ */
+export function findPrimaryKey(schema: IntrospectionSchema, byPkFieldNames: Array<string | undefined>): string[] | null {
+  const queryRoot = schema.queryType ? findObjectType(schema, schema.queryType.name) : undefined;
+  for (const name of byPkFieldNames) {
+    const byPkField = name ? queryRoot?.fields.find(f => f.name === name) : undefined;
+    if (byPkField) {
+      return byPkField.args.map(a => a.name);
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads unique constraints from the `<table>_constraint` enum. Hasura describes each value
+ * as `unique or primary key constraint on columns "a", "b"`.
+ */
+function findUniqueConstraints(schema: IntrospectionSchema, typeName: string, primaryKey: string[] | null): UniqueConstraintSummary[] {
+  const constraintEnum = findEnumType(schema, `${typeName}_constraint`);
+  if (!constraintEnum) {
+    return [];
+  }
+  return constraintEnum.enumValues.map(value => {
+    const columns = Array.from(value.description?.matchAll(/"([^"]+)"/g) ?? [], m => m[1]);
+    const isPrimaryKey = primaryKey !== null
+      && columns.length === primaryKey.length
+      && columns.every(c => primaryKey.includes(c));
+    return { name: value.name, columns, isPrimaryKey };
+  });
+}
+
+/**
+ * Builds the column summary returned by `describe_table` and the `hasura:/tables/{name}` resource.
+ * With a metadata entry the real schema, source, relationships and computed fields are included.
+ */
+export function summarizeTable(schema: IntrospectionSchema, tableName: string, schemaName: string = 'public', metadataTable?: MetadataTable): TableSummary {
+  const tableType = metadataTable
+    ? findObjectType(schema, metadataTable.graphqlName)
+    : findTableType(schema, tableName, schemaName);
+  if (!tableType) {
+    throw new Error(`Table '${tableName}' not found in schema. Check the table name and schema.`);
+  }
+
+  const typeName = tableType.name;
+  const primaryKey = findPrimaryKey(schema, [metadataTable?.rootFields.selectByPk, `${tableName}_by_pk`, `${typeName}_by_pk`]);
+  const uniqueConstraints = findUniqueConstraints(schema, typeName, primaryKey);
+
+  // `<table>_select_column` lists exactly the real columns; anything else scalar is a computed field.
+  const selectColumns = findEnumType(schema, `${typeName}_select_column`);
+  const columnNames = selectColumns ? new Set(selectColumns.enumValues.map(v => v.name)) : null;
+  const computedFieldNames = new Set(metadataTable?.computedFields.map(c => c.name));
+
+  const columns = tableType.fields.map((field): TableColumnSummary => {
+    const namedType = getNamedTypeRef(field.type);
+    const column: TableColumnSummary = {
+      name: field.name,
+      type: typeRefToString(field.type),
+      description: field.description || null,
+      args: field.args?.length
+        ? field.args.map(arg => ({ name: arg.name, type: typeRefToString(arg.type), description: arg.description || null }))
+        : null,
+      kind: 'column',
+    };
+
+    if (computedFieldNames.has(field.name)) {
+      column.kind = 'computed_field';
+      if (namedType.kind === 'OBJECT') {
+        column.targetTable = namedType.name;
+      }
+    } else if (namedType.kind === 'OBJECT') {
+      const isAggregate = field.name.endsWith('_aggregate') && namedType.name.endsWith('_aggregate');
+      column.kind = isAggregate || isListTypeRef(field.type) ? 'array_relationship' : 'object_relationship';
+      column.targetTable = isAggregate ? namedType.name.slice(0, -'_aggregate'.length) : namedType.name;
+      if (isAggregate) {
+        column.aggregate = true;
+      }
+    } else if (columnNames && !columnNames.has(field.name)) {
+      column.kind = 'computed_field';
+    }
+
+    if (primaryKey?.includes(field.name)) {
+      column.isPrimaryKey = true;
+    }
+    return column;
+  });
+
+  return {
+    table: {
+      name: tableName,
+      schema: metadataTable ? metadataTable.schema : schemaName,
+      description: tableType.description || null,
+      columns: columns.sort((a, b) => a.name.localeCompare(b.name)),
+      primaryKey,
+      uniqueConstraints,
+      ...(metadataTable && {
+        source: metadataTable.source,
+        sqlName: `${metadataTable.schema}.${metadataTable.name}`,
+        graphqlName: metadataTable.graphqlName,
+        relationships: metadataTable.relationships,
+        computedFields: metadataTable.computedFields,
+      }),
+    },
+    basedOn: metadataTable ? 'metadata' : 'introspection',
+  };
+}
+
+/**
+ * Looks the table up in the endpoint's metadata when available, falling back to
+ * introspection heuristics when there is no admin secret, the metadata API fails or
+ * the name is not a tracked table.
+ */
+export async function loadTableSummary(endpoint: HasuraEndpoint, tableName: string, schemaName: string = 'public', role?: string): Promise<TableSummary> {
+  const schema = await endpoint.getIntrospectionSchema(role);
+  let metadataTable: MetadataTable | undefined;
+  try {
+    const metadata = await endpoint.getMetadata();
+    metadataTable = metadata ? findMetadataTable(metadata, tableName, schemaName) : undefined;
+  } catch (error) {
+    logger.warn(`[${endpoint.name}] Falling back to introspection for table '${tableName}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+  // A role may not see every tracked table, so only use the metadata entry if its type is visible.
+  if (metadataTable && !findObjectType(schema, metadataTable.graphqlName)) {
+    metadataTable = undefined;
+  }
+  return summarizeTable(schema, tableName, schemaName, metadataTable);
+}
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HasuraEndpoint, MakeGqlRequest } from '../src/types/IServerTool.js';
+import { AggregateDataTool } from '../src/tools/AggregateDataTool.js';
+
+function fakeTool(respond: (query: string, variables: any) => unknown) {
+  const calls: Array<{ query: string; variables: any }> = [];
+  const makeGqlRequest = (async (query: string, variables?: any) => {
+    calls.push({ query, variables });
+    return respond(query, variables);
+  }) as MakeGqlRequest;
+  const tool = new AggregateDataTool(() => ({ name: 'default', makeGqlRequest } as unknown as HasuraEndpoint));
+  const run = async (input: Record<string, unknown>) =>
+    JSON.parse((await tool.execute({ tableName: 'orders', maxGroups: 50, ...input } as any, {})).content[0].text);
+  return { run, calls };
+}
+
+describe('aggregate_data', () => {
+  it('sends every metric under its own alias and labels the results', async () => {
+    const { run, calls } = fakeTool(() => ({ orders_aggregate: { aggregate: { m0: 3, m1: { amount: 60 }, m2: 2 } } }));
+    const result = await run({ metrics: ['count', 'sum(amount)', 'count(distinct user_id)'] });
+
+    assert.match(calls[0].query, /m0: count m1: sum \{ amount \} m2: count\(columns: \[user_id\], distinct: true\)/);
+    assert.deepEqual(result, { count: 3, 'sum(amount)': 60, 'count(distinct user_id)': 2 });
+  });
+
+  it('keeps the shape of the single-function form', async () => {
+    const { run } = fakeTool(() => ({ orders_aggregate: { aggregate: { m0: { amount: 20 } } } }));
+    assert.deepEqual(await run({ aggregateFunction: 'avg', field: 'amount' }), { avg: { amount: 20 } });
+  });
+
+  it('rejects unknown functions and malformed metrics', async () => {
+    const { run, calls } = fakeTool(() => ({}));
+    await assert.rejects(run({ metrics: ['median(amount)'] }), /Invalid metric/);
+    await assert.rejects(run({ metrics: ['sum'] }), /needs a field/);
+    await assert.rejects(run({ metrics: ['sum(distinct amount)'] }), /only supported for count/);
+    assert.equal(calls.length, 0);
+  });
+
+  it('aggregates each group with the filter and a condition on the group value', async () => {
+    const { run, calls } = fakeTool(query => query.includes('AggregateGroups')
+      ? { orders: [{ status: 'open' }, { status: null }] }
+      : { g0: { aggregate: { m0: 2 } }, g1: { aggregate: { m0: 1 } } });
+    const filter = { amount: { _gt: 10 } };
+    const result = await run({ metrics: ['count'], groupBy: 'status', filter });
+
+    assert.match(calls[0].query, /distinct_on: \[status\], order_by: \{ status: asc \}, limit: 51/);
+    assert.deepEqual(calls[1].variables, {
+      w0: { _and: [filter, { status: { _eq: 'open' } }] },
+      w1: { _and: [filter, { status: { _is_null: true } }] },
+    });
+    assert.deepEqual(result, {
+      groupBy: 'status',
+      rows: [{ status: 'open', count: 2 }, { status: null, count: 1 }],
+      groupCount: 2,
+      truncated: false,
+    });
+  });
+
+  it('rejects a groupBy that is not a column name before sending anything', async () => {
+    const { run, calls } = fakeTool(() => ({}));
+    await assert.rejects(run({ metrics: ['count'], groupBy: 'id]) { id } x: users(limit: 100000' }), /Invalid groupBy/);
+    await assert.rejects(run({ metrics: ['count'], groupBy: 'status: asc }' }), /Invalid groupBy/);
+    assert.equal(calls.length, 0);
+  });
+});
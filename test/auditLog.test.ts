@@ -0,0 +1,130 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AuditContext,
+  auditToolCall,
+  AuditEntry,
+  countResultRows,
+  createAuditLog,
+  hashVariables,
+  normalizeOperation,
+  recordSentOperation,
+  redactSecrets,
+} from '../src/auditLog.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'audit-test-'));
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+let fileCount = 0;
+const newAuditLog = (maxBytes = 1_000_000, maxFiles = 2) =>
+  createAuditLog({ enabled: true, file: join(directory, `audit${++fileCount}`, 'audit.jsonl'), maxBytes, maxFiles });
+
+const context: AuditContext = { client: 'test 1.0', sessionId: null, endpoint: 'default', role: null };
+const textResult = (value: unknown) => ({ content: [{ type: 'text' as const, text: JSON.stringify(value) }] });
+
+describe('redactSecrets', () => {
+  it('replaces values under secret-looking keys at any depth', () => {
+    assert.deepEqual(redactSecrets({ name: 'a', password: 'p', nested: [{ apiKey: 'k', Authorization: 'b', id: 1 }] }), {
+      name: 'a',
+      password: '[REDACTED]',
+      nested: [{ apiKey: '[REDACTED]', Authorization: '[REDACTED]', id: 1 }],
+    });
+  });
+
+  it('hashes variables after redaction, ignoring key order', () => {
+    assert.equal(hashVariables({ token: 'a', id: 1 }), hashVariables({ id: 1, token: 'b' }));
+    assert.notEqual(hashVariables({ id: 1 }), hashVariables({ id: 2 }));
+    assert.equal(hashVariables({}), null);
+  });
+});
+
+describe('countResultRows', () => {
+  it('counts arrays in the first two levels and affected rows', () => {
+    assert.equal(countResultRows({ users: [1, 2], posts: [3] }), 3);
+    assert.equal(countResultRows({ result: { users: [1, 2] } }), 2);
+    assert.equal(countResultRows({ delete_users: { affected_rows: 4 } }), 4);
+    assert.equal(countResultRows({ ok: true }), null);
+  });
+});
+
+describe('auditToolCall', () => {
+  it('records successful calls with the document, hashed variables and redacted arguments', async () => {
+    const auditLog = newAuditLog();
+    await auditToolCall(auditLog, 'run_graphql_query', { query: 'query {\n  users { id }\n}', variables: { id: 1 }, role: 'user', adminSecret: 'x' }, context,
+      async () => textResult({ users: [{ id: 1 }] }));
+
+    const [entry] = await auditLog.search({ limit: 10 });
+    assert.equal(entry.operation, '{users{id}}');
+    assert.equal(entry.variablesHash, hashVariables({ id: 1 }));
+    assert.deepEqual(entry.arguments, { role: 'user', adminSecret: '[REDACTED]' });
+    assert.equal(entry.status, 'ok');
+    assert.equal(entry.rowCount, 1);
+  });
+
+  it('records the documents sent by tools that build their own queries', async () => {
+    const auditLog = newAuditLog();
+    await auditToolCall(auditLog, 'aggregate_data', { tableName: 'orders' }, context, async () => {
+      recordSentOperation('query Groups { orders(distinct_on: [status]) { status } }');
+      recordSentOperation('query Agg { g0: orders_aggregate { aggregate { count } } }');
+      recordSentOperation('query Groups { orders(distinct_on: [status]) { status } }');
+      return textResult({ rows: [] });
+    });
+    await auditToolCall(auditLog, 'preview_table_data', { tableName: 'users' }, context, async () => {
+      recordSentOperation('query { users(limit: 5) { id } }');
+      return textResult({ users: [] });
+    });
+
+    const [preview, aggregate] = await auditLog.search({ limit: 10 });
+    assert.equal(aggregate.operation, [
+      normalizeOperation('query Groups { orders(distinct_on: [status]) { status } }'),
+      normalizeOperation('query Agg { g0: orders_aggregate { aggregate { count } } }'),
+    ].join('\n'));
+    assert.equal(preview.operation, '{users(limit:5){id}}');
+    assert.deepEqual((await auditLog.search({ operationContains: 'ORDERS_AGGREGATE', limit: 10 })).map(e => e.tool), ['aggregate_data']);
+  });
+
+  it('records thrown errors and error results, and passes them on', async () => {
+    const auditLog = newAuditLog();
+    await assert.rejects(auditToolCall(auditLog, 'a', {}, context, async () => {
+      throw new Error('boom');
+    }), /boom/);
+    await auditToolCall(auditLog, 'b', {}, context, async () => ({ content: [{ type: 'text' as const, text: 'bad\n input' }], isError: true }));
+
+    const entries = await auditLog.search({ status: 'error', limit: 10 });
+    assert.deepEqual(entries.map(e => [e.tool, e.error]), [['b', 'bad input'], ['a', 'boom']]);
+  });
+});
+
+describe('createAuditLog', () => {
+  const entry = (tool: string): AuditEntry => ({
+    timestamp: new Date().toISOString(), tool, client: null, sessionId: null, endpoint: 'default', role: null,
+    operation: null, variablesHash: null, arguments: {}, durationMs: 1, status: 'ok', rowCount: null, error: null,
+  });
+
+  it('rotates by size, keeps maxFiles rotated files and searches them newest first', async () => {
+    const auditLog = newAuditLog(400, 2);
+    for (let i = 0; i < 10; i++) {
+      auditLog.record(entry(`tool${i}`));
+    }
+    const found = await auditLog.search({ limit: 100 });
+
+    const files = readdirSync(join(directory, `audit${fileCount}`)).sort();
+    assert.deepEqual(files, ['audit.1.jsonl', 'audit.2.jsonl', 'audit.jsonl']);
+    for (const file of files) {
+      assert.ok(readFileSync(join(directory, `audit${fileCount}`, file)).length <= 400);
+    }
+    assert.equal(found[0].tool, 'tool9');
+    assert.ok(found.length < 10);
+    assert.deepEqual(found.map(e => e.tool), found.map(e => e.tool).sort().reverse());
+  });
+
+  it('writes nothing when disabled', async () => {
+    const file = join(directory, 'disabled', 'audit.jsonl');
+    const auditLog = createAuditLog({ enabled: false, file, maxBytes: 1024, maxFiles: 1 });
+    auditLog.record(entry('a'));
+    assert.deepEqual(await auditLog.search({ limit: 10 }), []);
+  });
+});
@@ -0,0 +1,118 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { getAbortError, getCallSignal, runWithDeadline } from '../src/callContext.js';
+import { createHasuraEndpoint } from '../src/hasuraEndpoint.js';
+import { createResultCache } from '../src/resultCache.js';
+
+describe('runWithDeadline', () => {
+  it('exposes the call signal to the function it runs', async () => {
+    const signal = await runWithDeadline('test', 1000, new AbortController().signal, async () => getCallSignal());
+    assert.ok(signal);
+    assert.equal(getCallSignal(), undefined);
+  });
+
+  it('rejects once the time limit passes and aborts the call signal', async () => {
+    let callSignal: AbortSignal | undefined;
+    await assert.rejects(
+      runWithDeadline('Tool \'slow\'', 20, new AbortController().signal, () => {
+        callSignal = getCallSignal();
+        return new Promise(() => {});
+      }),
+      /Tool 'slow' timed out after 20ms\./
+    );
+    assert.equal(callSignal?.aborted, true);
+  });
+
+  it('rejects when the client cancels, with or without a reason', async () => {
+    const client = new AbortController();
+    const running = runWithDeadline('test', 1000, client.signal, () => new Promise(() => {}));
+    client.abort('user pressed stop');
+    await assert.rejects(running, /Request cancelled by the client: user pressed stop\./);
+
+    const cancelled = new AbortController();
+    cancelled.abort();
+    assert.equal(getAbortError(cancelled.signal).message, 'Request cancelled by the client.');
+  });
+});
+
+describe('endpoint retries and timeouts', () => {
+  // Each request takes the next planned response; 'hang' never answers.
+  let plan: Array<number | 'hang'> = [];
+  let requestCount = 0;
+  const hanging: ServerResponse[] = [];
+  let server: Server;
+  let url: string;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requestCount++;
+      req.resume();
+      const next = plan.shift() ?? 200;
+      if (next === 'hang') {
+        hanging.push(res);
+        return;
+      }
+      res.writeHead(next, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(next === 200 ? { data: { ok: true } } : { errors: [{ message: `status ${next}` }] }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/graphql`;
+  });
+
+  after(() => {
+    hanging.forEach(res => res.destroy());
+    server.close();
+  });
+
+  function makeEndpoint(attempts: number, requestMs = 5000) {
+    requestCount = 0;
+    return createHasuraEndpoint({
+      name: 'default',
+      endpoint: url,
+      auth: {},
+      headers: {},
+      timeouts: { requestMs, introspectionMs: 5000 },
+      retries: { attempts, initialDelayMs: 1, maxDelayMs: 5 },
+    }, createResultCache({ enabled: false, maxEntries: 1, ttlMs: 1 }));
+  }
+
+  it('retries queries after 5xx responses', async () => {
+    plan = [503, 502];
+    assert.deepEqual(await makeEndpoint(2).makeGqlRequest('{ ok }'), { ok: true });
+    assert.equal(requestCount, 3);
+  });
+
+  it('gives up after the configured attempts', async () => {
+    plan = [500, 500];
+    await assert.rejects(makeEndpoint(1).makeGqlRequest('{ ok }'), /GraphQL operation failed: status 500/);
+    assert.equal(requestCount, 2);
+  });
+
+  it('does not retry mutations or 4xx responses', async () => {
+    plan = [503];
+    await assert.rejects(makeEndpoint(3).makeGqlRequest('mutation { ok }'), /status 503/);
+    assert.equal(requestCount, 1);
+
+    plan = [400];
+    await assert.rejects(makeEndpoint(3).makeGqlRequest('{ ok }'), /status 400/);
+    assert.equal(requestCount, 1);
+  });
+
+  it('fails a request that takes longer than the request timeout', async () => {
+    plan = ['hang'];
+    await assert.rejects(makeEndpoint(2, 50).makeGqlRequest('{ ok }'), /GraphQL request timed out after 50ms\./);
+    assert.equal(requestCount, 1);
+  });
+
+  it('aborts the request in flight when the tool call is cancelled', async () => {
+    plan = ['hang'];
+    const endpoint = makeEndpoint(2);
+    const client = new AbortController();
+    const running = runWithDeadline('test', 5000, client.signal, () => endpoint.makeGqlRequest('{ ok }'));
+    setTimeout(() => client.abort(), 20);
+    await assert.rejects(running, /Request cancelled by the client/);
+    assert.equal(requestCount, 1);
+  });
+});
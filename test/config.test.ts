@@ -0,0 +1,90 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigError, loadConfig } from '../src/config.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'config-test-'));
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+function writeConfig(name: string, text: string): string {
+  const path = join(directory, name);
+  writeFileSync(path, text);
+  return path;
+}
+
+describe('loadConfig', () => {
+  it('applies the defaults to a bare endpoint', () => {
+    const config = loadConfig(['http://localhost:8080/v1/graphql'], {});
+    assert.equal(config.endpoint, 'http://localhost:8080/v1/graphql');
+    assert.equal(config.transport.type, 'stdio');
+    assert.equal(config.response.maxBytes, 100_000);
+    assert.deepEqual(config.mutations, { readOnly: false, allowList: [], requireConfirmation: false });
+  });
+
+  it('reads YAML and JSON files', () => {
+    const yamlPath = writeConfig('config.yaml', 'endpoint: http://yaml/v1/graphql\nresponse:\n  format: markdown\n');
+    const jsonPath = writeConfig('config.json', JSON.stringify({ endpoint: 'http://json/v1/graphql', cache: { ttlMs: 5 } }));
+    assert.equal(loadConfig(['--config', yamlPath], {}).response.format, 'markdown');
+    assert.equal(loadConfig([`--config=${jsonPath}`], {}).cache.ttlMs, 5);
+    assert.equal(loadConfig([], { HASURA_MCP_CONFIG: jsonPath }).endpoint, 'http://json/v1/graphql');
+  });
+
+  it('lets the environment override the file and arguments override both, key by key', () => {
+    const path = writeConfig('precedence.yaml', [
+      'endpoint: http://file/v1/graphql',
+      'auth: { adminSecret: from-file }',
+      'mutations: { readOnly: false, allowList: [insert_a, insert_b] }',
+      'response: { maxBytes: 5000, format: compact }',
+    ].join('\n'));
+    const config = loadConfig(['--config', path, '--read-only', '--allow-mutation', 'insert_c', 'http://cli/v1/graphql'], {
+      HASURA_GRAPHQL_ENDPOINT: 'http://env/v1/graphql',
+      HASURA_ADMIN_SECRET: 'from-env',
+      HASURA_RESPONSE_MAX_BYTES: '6000',
+      HASURA_READ_ONLY: 'false',
+    });
+
+    assert.equal(config.endpoint, 'http://cli/v1/graphql');
+    assert.equal(config.auth.adminSecret, 'from-env');
+    assert.equal(config.response.maxBytes, 6000);
+    assert.equal(config.response.format, 'compact');
+    assert.equal(config.mutations.readOnly, true);
+    // Lists are replaced, not merged.
+    assert.deepEqual(config.mutations.allowList, ['insert_c']);
+  });
+
+  it('converts environment values and ignores empty ones', () => {
+    const config = loadConfig([], {
+      HASURA_GRAPHQL_ENDPOINT: 'http://env/v1/graphql',
+      HASURA_CACHE_ENABLED: 'no',
+      HASURA_DISABLED_TOOLS: 'aggregate_data, build_query,',
+      HASURA_HEADERS: '{"x-team":"data"}',
+      HASURA_MCP_PORT: '',
+    });
+    assert.equal(config.cache.enabled, false);
+    assert.deepEqual(config.tools.disabled, ['aggregate_data', 'build_query']);
+    assert.deepEqual(config.headers, { 'x-team': 'data' });
+    assert.equal(config.transport.port, 3000);
+  });
+
+  it('lists every invalid setting', () => {
+    assert.throws(() => loadConfig([], { HASURA_GRAPHQL_ENDPOINT: 'not a url', HASURA_CACHE_TTL_MS: 'soon', HASURA_RESPONSE_FORMAT: 'xml' }), (error: Error) => {
+      assert.ok(error instanceof ConfigError);
+      assert.match(error.message, /- endpoint: Invalid url/);
+      assert.match(error.message, /- cache\.ttlMs:/);
+      assert.match(error.message, /- response\.format:/);
+      return true;
+    });
+  });
+
+  it('rejects a missing endpoint, unknown options and bad files', () => {
+    assert.throws(() => loadConfig([], {}), /Hasura endpoint is required/);
+    assert.throws(() => loadConfig(['--verbose'], {}), /Unknown option: --verbose/);
+    assert.throws(() => loadConfig(['--config'], {}), /--config requires a value/);
+    assert.throws(() => loadConfig(['--config', join(directory, 'missing.yaml')], {}), /Cannot read config file/);
+    assert.throws(() => loadConfig(['--config', writeConfig('list.json', '[]')], {}), /must contain an object/);
+    assert.throws(() => loadConfig([], { HASURA_HEADERS: '[1]', HASURA_GRAPHQL_ENDPOINT: 'http://x' }), /HASURA_HEADERS must be a JSON object/);
+    assert.throws(() => loadConfig(['--config', writeConfig('typo.yaml', 'endpoint: http://x\nrespones: {}\n')], {}), /Unrecognized key/);
+  });
+});
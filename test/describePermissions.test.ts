@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HasuraEndpoint } from '../src/types/IServerTool.js';
+import { HasuraMetadata, parseMetadata } from '../src/utils/hasuraMetadata.js';
+import { DescribePermissionsTool } from '../src/tools/DescribePermissionsTool.js';
+
+const metadata = parseMetadata({
+  resource_version: 3,
+  metadata: {
+    version: 3,
+    sources: [{
+      name: 'default',
+      tables: [
+        {
+          table: { schema: 'public', name: 'users' },
+          select_permissions: [
+            { role: 'user', permission: { columns: ['id', 'name'], filter: { id: { _eq: 'X-Hasura-User-Id' } }, limit: 10, computed_fields: ['full_name'] } },
+            { role: 'public', permission: { columns: '*', filter: {}, allow_aggregations: true } },
+          ],
+          update_permissions: [
+            { role: 'user', permission: { columns: ['name'], filter: { id: { _eq: 'X-Hasura-User-Id' } }, check: null } },
+          ],
+        },
+        {
+          table: { schema: 'public', name: 'orders' },
+          insert_permissions: [
+            { role: 'user', permission: { columns: ['total'], check: { user_id: { _eq: 'X-Hasura-User-Id' } }, set: { user_id: 'x-hasura-user-id' } } },
+          ],
+          delete_permissions: [
+            { role: 'service', permission: { filter: {}, backend_only: true } },
+          ],
+        },
+      ],
+    }],
+  },
+});
+
+function makeTool(current: HasuraMetadata | null = metadata) {
+  const endpoint = { name: 'default', getMetadata: async () => current } as unknown as HasuraEndpoint;
+  return new DescribePermissionsTool(() => endpoint);
+}
+
+async function run(input: Record<string, unknown>, current?: HasuraMetadata | null) {
+  const result = await makeTool(current).execute(input as any, {});
+  return JSON.parse(result.content[0].text);
+}
+
+describe('parseMetadata permissions', () => {
+  it('keeps only the settings each action supports', () => {
+    const [users, orders] = metadata.tables;
+    const userSelect = users.permissions.find(p => p.role === 'user' && p.action === 'select')!;
+    assert.deepEqual(userSelect.columns, ['id', 'name']);
+    assert.equal(userSelect.limit, 10);
+    assert.equal(userSelect.allowAggregations, false);
+    assert.deepEqual(userSelect.computedFields, ['full_name']);
+    assert.equal(userSelect.check, null);
+    assert.equal(userSelect.presets, null);
+
+    const insert = orders.permissions.find(p => p.action === 'insert')!;
+    assert.equal(insert.filter, null);
+    assert.deepEqual(insert.presets, { user_id: 'x-hasura-user-id' });
+    assert.equal(insert.limit, null);
+
+    const del = orders.permissions.find(p => p.action === 'delete')!;
+    assert.equal(del.columns, null);
+    assert.equal(del.backendOnly, true);
+  });
+});
+
+describe('DescribePermissionsTool', () => {
+  it('groups a table\'s permissions by role and action', async () => {
+    const result = await run({ tableName: 'users' });
+    assert.deepEqual(result.table, { name: 'users', sqlName: 'public.users', source: 'default' });
+    assert.deepEqual(Object.keys(result.roles).sort(), ['public', 'user']);
+    assert.deepEqual(Object.keys(result.roles.user).sort(), ['select', 'update']);
+    assert.equal(result.roles.public.select.columns, '*');
+    assert.equal(result.roles.public.select.allRows, true);
+    assert.equal(result.roles.user.select.allRows, undefined);
+    assert.equal(result.roles.user.select.backendOnly, undefined);
+    assert.equal('check' in result.roles.user.select, false);
+  });
+
+  it('notes when the requested role has no access to the table', async () => {
+    const result = await run({ tableName: 'orders', role: 'public' });
+    assert.deepEqual(result.roles, {});
+    assert.match(result.note, /Role 'public' has no permissions/);
+  });
+
+  it('lists every table a role can access when no table is given', async () => {
+    const result = await run({ role: 'user' });
+    assert.equal(result.role, 'user');
+    assert.deepEqual(result.tables.map((t: any) => t.table.name), ['users', 'orders']);
+    assert.deepEqual(Object.keys(result.tables[1].permissions), ['insert']);
+    assert.equal(result.tablesWithoutAccess, 0);
+
+    const service = await run({ role: 'service' });
+    assert.equal(service.tables.length, 1);
+    assert.equal(service.tables[0].permissions.delete.backendOnly, true);
+    assert.equal(service.tablesWithoutAccess, 1);
+  });
+
+  it('rejects missing input, unknown tables and endpoints without metadata access', async () => {
+    await assert.rejects(run({}), /Provide a tableName, a role, or both/);
+    await assert.rejects(run({ tableName: 'missing' }), /Table 'missing' is not tracked/);
+    await assert.rejects(run({ role: 'user' }, null), /requires an admin secret/);
+  });
+});
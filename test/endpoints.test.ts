@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadConfig, resolveEndpointConfigs } from '../src/config.js';
+import { createEndpointResolver, createHasuraEndpoint } from '../src/hasuraEndpoint.js';
+import { createResultCache } from '../src/resultCache.js';
+import { ListEndpointsTool } from '../src/tools/ListEndpointsTool.js';
+
+const endpointsJson = JSON.stringify({
+  staging: { endpoint: 'http://staging/v1/graphql', auth: { adminSecret: 'staging-secret' }, timeouts: { requestMs: 1000 } },
+  prod: { endpoint: 'http://prod/v1/graphql', auth: { bearerToken: 'prod-token' }, defaultRole: 'viewer' },
+});
+
+describe('resolveEndpointConfigs', () => {
+  it('names the top-level endpoint default and puts it first', () => {
+    const configs = resolveEndpointConfigs(loadConfig(['http://main/v1/graphql'], { HASURA_ENDPOINTS: endpointsJson }));
+    assert.deepEqual(configs.map(c => c.name), ['default', 'staging', 'prod']);
+  });
+
+  it('moves the chosen default endpoint first', () => {
+    const configs = resolveEndpointConfigs(loadConfig([], { HASURA_ENDPOINTS: endpointsJson, HASURA_DEFAULT_ENDPOINT: 'prod' }));
+    assert.deepEqual(configs.map(c => c.name), ['prod', 'staging']);
+  });
+
+  it('lets named endpoints inherit the top-level timeouts they do not set', () => {
+    const [staging] = resolveEndpointConfigs(loadConfig([], { HASURA_ENDPOINTS: endpointsJson, HASURA_INTROSPECTION_TIMEOUT_MS: '9000' }));
+    assert.equal(staging.timeouts.requestMs, 1000);
+    assert.equal(staging.timeouts.introspectionMs, 9000);
+  });
+
+  it('rejects unknown and reserved endpoint names', () => {
+    assert.throws(() => loadConfig([], { HASURA_ENDPOINTS: endpointsJson, HASURA_DEFAULT_ENDPOINT: 'dev' }), /Unknown endpoint 'dev'/);
+    assert.throws(() => loadConfig(['http://main/v1/graphql'], { HASURA_ENDPOINTS: JSON.stringify({ default: { endpoint: 'http://x' } }) }), /'default' is reserved/);
+  });
+});
+
+describe('createEndpointResolver', () => {
+  const cache = createResultCache({ enabled: false, maxEntries: 1, ttlMs: 1 });
+  const endpoints = resolveEndpointConfigs(loadConfig([], { HASURA_ENDPOINTS: endpointsJson })).map(c => createHasuraEndpoint(c, cache));
+  const resolve = createEndpointResolver(endpoints);
+
+  it('returns the default endpoint without a name and others by name', () => {
+    assert.equal(resolve().name, 'staging');
+    assert.equal(resolve('prod').url, 'http://prod/v1/graphql');
+    assert.throws(() => resolve('dev'), /Unknown endpoint 'dev'. Configured endpoints: staging, prod/);
+  });
+
+  it('lists endpoints without their secrets', async () => {
+    const text = (await new ListEndpointsTool(endpoints).execute({}, {})).content[0].text;
+    assert.deepEqual(JSON.parse(text).endpoints, [
+      { name: 'staging', url: 'http://staging/v1/graphql', isDefault: true, authMode: 'admin-secret', defaultRole: null },
+      { name: 'prod', url: 'http://prod/v1/graphql', isDefault: false, authMode: 'bearer-token', defaultRole: 'viewer' },
+    ]);
+    assert.doesNotMatch(text, /staging-secret|prod-token/);
+  });
+});
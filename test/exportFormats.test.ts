@@ -0,0 +1,103 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { buildSchema, introspectionFromSchema } from 'graphql';
+import { HasuraEndpoint } from '../src/types/IServerTool.js';
+import { collectColumns, flattenRow, serializeRows } from '../src/utils/exportFormats.js';
+import { ExportQueryTool } from '../src/tools/ExportQueryTool.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'export-test-'));
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+describe('export formats', () => {
+  const rows = [
+    flattenRow({ id: 1, author: { name: 'Ann', address: { city: 'Oslo' } }, tags: ['a', 'b'] }),
+    flattenRow({ id: 2, note: 'says "hi", twice\nthen leaves', author: null }),
+  ];
+
+  it('flattens nested objects into dotted columns and keeps arrays', () => {
+    assert.deepEqual(rows[0], { id: 1, 'author.name': 'Ann', 'author.address.city': 'Oslo', tags: ['a', 'b'] });
+    assert.deepEqual(rows[1], { id: 2, note: 'says "hi", twice\nthen leaves', author: null });
+    assert.deepEqual(collectColumns(rows), ['id', 'author.name', 'author.address.city', 'tags', 'note', 'author']);
+  });
+
+  it('writes RFC 4180 CSV with a header row', () => {
+    assert.deepEqual(serializeRows(rows, ['id', 'author.name', 'tags', 'note'], 'csv'), [
+      'id,author.name,tags,note\r\n',
+      '1,Ann,"[""a"",""b""]",\r\n',
+      '2,,,"says ""hi"", twice\nthen leaves"\r\n',
+    ]);
+  });
+
+  it('writes one JSON object per line with null for missing columns', () => {
+    assert.deepEqual(serializeRows(rows, ['id', 'note'], 'ndjson'), [
+      '{"id":1,"note":null}\n',
+      '{"id":2,"note":"says \\"hi\\", twice\\nthen leaves"}\n',
+    ]);
+  });
+});
+
+describe('ExportQueryTool', () => {
+  const schema = introspectionFromSchema(buildSchema(`
+    type users { id: Int! name: String }
+    type query_root { users(limit: Int, offset: Int): [users!]! }
+    schema { query: query_root }
+  `)).__schema;
+  const allUsers = [{ id: 1, name: 'Ann' }, { id: 2, name: 'Bob' }, { id: 3, name: 'Cy' }];
+
+  function makeTool(limits: { maxRows?: number; maxBytes?: number } = {}) {
+    const requests: Array<Record<string, any>> = [];
+    const endpoint = {
+      name: 'default',
+      getIntrospectionSchema: async () => schema,
+      makeGqlRequest: async (_query: string, variables: Record<string, any>) => {
+        requests.push(variables);
+        const { limit = allUsers.length, offset = 0 } = variables;
+        return { users: allUsers.slice(offset, offset + limit) };
+      },
+    } as unknown as HasuraEndpoint;
+    const tool = new ExportQueryTool(() => endpoint, { directory, maxRows: 100, maxBytes: 10_000, ...limits });
+    return { tool, requests };
+  }
+
+  const pagedQuery = 'query ($limit: Int, $offset: Int) { users(limit: $limit, offset: $offset) { id name } }';
+
+  it('pages through a query with $limit and $offset and writes the file', async () => {
+    const { tool, requests } = makeTool();
+    const result = await tool.execute({ path: 'users.csv', query: pagedQuery, pageSize: 2 } as any, {});
+    const summary = JSON.parse(result.content[0].text);
+    assert.equal(summary.path, join(directory, 'users.csv'));
+    assert.equal(summary.format, 'csv');
+    assert.equal(summary.rowCount, 3);
+    assert.equal(summary.pages, 2);
+    assert.deepEqual(requests, [{ limit: 2, offset: 0 }, { limit: 2, offset: 2 }]);
+    assert.equal(readFileSync(summary.path, 'utf8'), 'id,name\r\n1,Ann\r\n2,Bob\r\n3,Cy\r\n');
+  });
+
+  it('picks NDJSON from the file extension and refuses to overwrite', async () => {
+    const { tool } = makeTool();
+    const input = { path: 'nested/users.jsonl', query: '{ users { id name } }' };
+    const summary = JSON.parse((await tool.execute(input as any, {})).content[0].text);
+    assert.equal(summary.format, 'ndjson');
+    assert.equal(readFileSync(summary.path, 'utf8'), '{"id":1,"name":"Ann"}\n{"id":2,"name":"Bob"}\n{"id":3,"name":"Cy"}\n');
+    await assert.rejects(tool.execute(input as any, {}), /already exists/);
+    await tool.execute({ ...input, overwrite: true } as any, {});
+  });
+
+  it('refuses exports over the row or byte limit without writing a file', async () => {
+    await assert.rejects(makeTool({ maxRows: 2 }).tool.execute({ path: 'rows.csv', query: pagedQuery, pageSize: 2 } as any, {}), /more than 2 rows/);
+    await assert.rejects(makeTool({ maxBytes: 10 }).tool.execute({ path: 'bytes.csv', query: pagedQuery } as any, {}), /over the server's export limit of 10 bytes/);
+    assert.equal(existsSync(join(directory, 'rows.csv')), false);
+    assert.equal(existsSync(join(directory, 'bytes.csv')), false);
+    assert.equal(readdirSync(directory).some(name => name.includes('.partial-')), false);
+  });
+
+  it('rejects paths outside the export directory and ambiguous input', async () => {
+    const { tool } = makeTool();
+    await assert.rejects(tool.execute({ path: '../escape.csv', query: pagedQuery } as any, {}), /must be a file inside the export directory/);
+    await assert.rejects(tool.execute({ path: 'a.csv' } as any, {}), /exactly one of 'tableName' or 'query'/);
+    await assert.rejects(tool.execute({ path: 'a.csv', query: '{ users { id } users2: users { id } }' } as any, {}), /exactly one root field/);
+  });
+});
@@ -0,0 +1,168 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { WebSocketServer } from 'ws';
+import { useServer } from 'graphql-ws/use/ws';
+import { buildSchema } from 'graphql';
+import { collectSubscription, openSubscription, SubscriptionSink } from '../src/utils/graphqlSubscription.js';
+
+const schema = buildSchema(`
+  type Query { ok: Boolean }
+  type Subscription { ticks(count: Int!): Int! fails: Int! forever: Int! }
+`);
+
+// A graphql-transport-ws server standing in for Hasura.
+let server: WebSocketServer;
+let url: string;
+let connectionParams: Record<string, unknown> | undefined;
+let foreverReleased = false;
+
+before(async () => {
+  server = new WebSocketServer({ port: 0, path: '/v1/graphql' });
+  await new Promise(resolve => server.once('listening', resolve));
+  useServer({
+    schema,
+    onConnect: ctx => {
+      connectionParams = ctx.connectionParams;
+    },
+    roots: {
+      subscription: {
+        ticks: async function* ({ count }: { count: number }) {
+          for (let i = 1; i <= count; i++) {
+            yield { ticks: i };
+          }
+        },
+        fails: () => {
+          throw new Error('boom');
+        },
+        forever: async function* () {
+          try {
+            for (let i = 1; ; i++) {
+              await new Promise(resolve => setTimeout(resolve, 10));
+              yield { forever: i };
+            }
+          } finally {
+            foreverReleased = true;
+          }
+        },
+      },
+    },
+  }, server);
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/v1/graphql`;
+});
+
+after(() => {
+  for (const client of server.clients) {
+    client.terminate();
+  }
+  server.close();
+});
+
+interface Recorded {
+  events: Array<Record<string, unknown>>;
+  done: Promise<'complete' | Error>;
+  sink: SubscriptionSink;
+}
+
+function recordingSink(onNext?: (data: Record<string, unknown>) => void): Recorded {
+  const events: Array<Record<string, unknown>> = [];
+  let settle!: (outcome: 'complete' | Error) => void;
+  const done = new Promise<'complete' | Error>(resolve => {
+    settle = resolve;
+  });
+  return {
+    events,
+    done,
+    sink: {
+      next: data => {
+        events.push(data);
+        onNext?.(data);
+      },
+      error: error => settle(error),
+      complete: () => settle('complete'),
+    },
+  };
+}
+
+describe('openSubscription', () => {
+  it('delivers every event, then completes', async () => {
+    const recorded = recordingSink();
+    openSubscription(url, { 'x-hasura-role': 'user' }, 'subscription { ticks(count: 3) }', undefined, recorded.sink, 5000);
+    assert.equal(await recorded.done, 'complete');
+    assert.deepEqual(recorded.events, [{ ticks: 1 }, { ticks: 2 }, { ticks: 3 }]);
+  });
+
+  it('sends the headers in the connection_init payload', async () => {
+    const recorded = recordingSink();
+    openSubscription(url, { 'x-hasura-role': 'analyst' }, 'subscription { ticks(count: 1) }', undefined, recorded.sink, 5000);
+    await recorded.done;
+    assert.deepEqual(connectionParams, { headers: { 'x-hasura-role': 'analyst' } });
+  });
+
+  it('passes variables', async () => {
+    const recorded = recordingSink();
+    openSubscription(url, {}, 'subscription ($n: Int!) { ticks(count: $n) }', { n: 2 }, recorded.sink, 5000);
+    assert.equal(await recorded.done, 'complete');
+    assert.equal(recorded.events.length, 2);
+  });
+
+  it('reports a failing subscription through error', async () => {
+    const recorded = recordingSink();
+    openSubscription(url, {}, 'subscription { fails }', undefined, recorded.sink, 5000);
+    const outcome = await recorded.done;
+    assert.ok(outcome instanceof Error);
+    assert.match(outcome.message, /boom/);
+    assert.equal(recorded.events.length, 0);
+  });
+
+  it('ends the subscription on the server when stopped', async () => {
+    foreverReleased = false;
+    let stop!: () => void;
+    const firstEvent = new Promise<void>(resolve => {
+      const recorded = recordingSink(() => resolve());
+      stop = openSubscription(url, {}, 'subscription { forever }', undefined, recorded.sink, 5000);
+    });
+    await firstEvent;
+    stop();
+    for (let i = 0; i < 100 && !foreverReleased; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    assert.equal(foreverReleased, true);
+  });
+});
+
+describe('collectSubscription', () => {
+  it('stops once onData returns true', async () => {
+    const seen: number[] = [];
+    const reason = await collectSubscription(
+      sink => openSubscription(url, {}, 'subscription { forever }', undefined, sink, 5000),
+      data => {
+        seen.push(data.forever as number);
+        return seen.length === 3;
+      },
+      { maxDurationMs: 5000 }
+    );
+    assert.equal(reason, 'stopped');
+    assert.deepEqual(seen, [1, 2, 3]);
+  });
+
+  it('resolves with completed when the server ends the subscription', async () => {
+    const reason = await collectSubscription(
+      sink => openSubscription(url, {}, 'subscription { ticks(count: 2) }', undefined, sink, 5000),
+      () => false,
+      { maxDurationMs: 5000 }
+    );
+    assert.equal(reason, 'completed');
+  });
+
+  it('rejects when the subscription fails', async () => {
+    await assert.rejects(
+      collectSubscription(
+        sink => openSubscription(url, {}, 'subscription { fails }', undefined, sink, 5000),
+        () => false,
+        { maxDurationMs: 5000 }
+      ),
+      /boom/
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSchema, introspectionFromSchema, OperationTypeNode, parse } from 'graphql';
+import { HasuraEndpoint, MakeGqlRequest } from '../src/types/IServerTool.js';
+import { analyzeDocument, getRootFieldNames } from '../src/utils/graphqlValidation.js';
+import { RunGraphQLQueryTool } from '../src/tools/RunGraphQLQueryTool.js';
+
+const schema = introspectionFromSchema(buildSchema(`
+  type users { id: Int! name: String }
+  type query_root { users(limit: Int): [users!]! }
+  type mutation_root { delete_users(id: Int!): users }
+  schema { query: query_root mutation: mutation_root }
+`)).__schema;
+
+describe('analyzeDocument', () => {
+  it('reports syntax errors with their location and no document', () => {
+    const analysis = analyzeDocument('{ users { id }', schema);
+    assert.equal(analysis.document, null);
+    assert.equal(analysis.errors.length, 1);
+    assert.deepEqual(analysis.errors[0].locations, [{ line: 1, column: 15 }]);
+  });
+
+  it('validates against the schema and extracts suggestions', () => {
+    const analysis = analyzeDocument('query { users { id nme } }', schema);
+    assert.deepEqual(analysis.operationTypes, [OperationTypeNode.QUERY]);
+    assert.equal(analysis.errors.length, 1);
+    assert.match(analysis.errors[0].message, /Cannot query field "nme"/);
+    assert.deepEqual(analysis.errors[0].suggestions, ['name']);
+  });
+
+  it('only parses when there is no schema', () => {
+    const analysis = analyzeDocument('mutation { anything }');
+    assert.deepEqual(analysis.operationTypes, [OperationTypeNode.MUTATION]);
+    assert.deepEqual(analysis.errors, []);
+  });
+});
+
+describe('getRootFieldNames', () => {
+  it('follows fragments, skips __typename and returns field names, not aliases', () => {
+    const document = parse(`
+      mutation { a: delete_users(id: 1) { id } ...More __typename }
+      fragment More on mutation_root { ... on mutation_root { delete_users(id: 2) { id } insert_users { id } } }
+    `);
+    assert.deepEqual(getRootFieldNames(document, OperationTypeNode.MUTATION), ['delete_users', 'insert_users']);
+  });
+});
+
+describe('run_graphql_query validation', () => {
+  const guard = { enabled: false, maxDepth: 10, maxUnboundedLists: 10, maxEstimatedRows: 100_000, assumedListSize: 100 };
+
+  function fakeTool() {
+    const sent: string[] = [];
+    const makeGqlRequest = (async (query: string) => {
+      sent.push(query);
+      return { users: [] };
+    }) as MakeGqlRequest;
+    const endpoint = { name: 'default', makeGqlRequest, getIntrospectionSchema: async () => schema } as unknown as HasuraEndpoint;
+    return { tool: new RunGraphQLQueryTool(() => endpoint, guard), sent };
+  }
+
+  it('returns validation errors without sending the query', async () => {
+    const { tool, sent } = fakeTool();
+    const result: { content: Array<{ text: string }>; isError?: boolean } = await tool.execute({ query: '{ users { nme } }' } as any, {});
+    assert.equal(result.isError, true);
+    assert.match(JSON.parse(result.content[0].text).error, /Nothing was sent to Hasura/);
+    assert.deepEqual(sent, []);
+  });
+
+  it('rejects mutations', async () => {
+    const { tool, sent } = fakeTool();
+    await assert.rejects(tool.execute({ query: 'mutation { delete_users(id: 1) { id } }' } as any, {}), /only supports read-only queries/);
+    assert.deepEqual(sent, []);
+  });
+
+  it('sends valid queries', async () => {
+    const { tool, sent } = fakeTool();
+    const result = await tool.execute({ query: '{ users { id } }' } as any, {});
+    assert.deepEqual(JSON.parse(result.content[0].text), { users: [] });
+    assert.equal(sent.length, 1);
+  });
+});
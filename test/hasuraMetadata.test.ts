@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSchema, introspectionFromSchema } from 'graphql';
+import { HasuraEndpoint } from '../src/types/IServerTool.js';
+import { findMetadataTable, getMetadataUrl, HasuraMetadata, parseMetadata } from '../src/utils/hasuraMetadata.js';
+import { loadTableSummary, summarizeTable } from '../src/utils/tableSummary.js';
+
+const exported = {
+  resource_version: 12,
+  metadata: {
+    version: 3,
+    sources: [{
+      name: 'default',
+      kind: 'postgres',
+      tables: [
+        {
+          table: { schema: 'public', name: 'users' },
+          object_relationships: [{ name: 'profile', using: { foreign_key_constraint_on: 'profile_id' } }],
+          array_relationships: [{ name: 'orders', using: { foreign_key_constraint_on: { table: { schema: 'sales', name: 'orders' }, column: 'user_id' } } }],
+          computed_fields: [{ name: 'full_name', definition: { function: { schema: 'public', name: 'user_full_name' } }, comment: 'First and last name' }],
+        },
+        {
+          table: { schema: 'sales', name: 'orders' },
+          configuration: {
+            custom_name: 'Order',
+            custom_root_fields: { select: 'orders', select_by_pk: { name: 'order' } },
+            column_config: { created_at: { custom_name: 'createdAt' } },
+          },
+          object_relationships: [{
+            name: 'buyer',
+            using: { manual_configuration: { remote_table: 'users', column_mapping: { user_id: 'id' } } },
+          }],
+        },
+      ],
+    }],
+  },
+};
+
+describe('parseMetadata', () => {
+  const metadata = parseMetadata(exported);
+
+  it('reads tables with their GraphQL names and root fields', () => {
+    assert.equal(metadata.resourceVersion, 12);
+    const [users, orders] = metadata.tables;
+    assert.equal(users.graphqlName, 'users');
+    assert.deepEqual(users.rootFields, { select: 'users', selectByPk: 'users_by_pk', selectAggregate: 'users_aggregate' });
+    assert.equal(orders.graphqlName, 'Order');
+    assert.deepEqual(orders.rootFields, { select: 'orders', selectByPk: 'order', selectAggregate: 'Order_aggregate' });
+    assert.deepEqual(orders.customColumnNames, { created_at: 'createdAt' });
+  });
+
+  it('reads foreign-key and manual relationships and computed fields', () => {
+    const [users, orders] = metadata.tables;
+    assert.deepEqual(users.relationships, [
+      { name: 'profile', type: 'object', remoteTable: null, columnMapping: null, foreignKeyColumns: ['profile_id'] },
+      { name: 'orders', type: 'array', remoteTable: { schema: 'sales', name: 'orders' }, columnMapping: null, foreignKeyColumns: ['user_id'] },
+    ]);
+    assert.deepEqual(orders.relationships[0].remoteTable, { schema: 'public', name: 'users' });
+    assert.deepEqual(orders.relationships[0].columnMapping, { user_id: 'id' });
+    assert.deepEqual(users.computedFields, [{ name: 'full_name', function: 'public.user_full_name', comment: 'First and last name' }]);
+  });
+
+  it('accepts version 1 metadata without sources', () => {
+    const v1 = parseMetadata({ version: 1, tables: [{ table: 'users' }, { table: { schema: 'audit', name: 'events' } }] });
+    assert.equal(v1.resourceVersion, null);
+    assert.deepEqual(v1.sources.map(s => s.name), ['default']);
+    assert.deepEqual(v1.tables.map(t => t.graphqlName), ['users', 'audit_events']);
+  });
+
+  it('finds tables by GraphQL name, root field or SQL name', () => {
+    assert.equal(findMetadataTable(metadata, 'orders')?.graphqlName, 'Order');
+    assert.equal(findMetadataTable(metadata, 'Order')?.name, 'orders');
+    assert.equal(findMetadataTable(metadata, 'orders', 'sales')?.schema, 'sales');
+    assert.equal(findMetadataTable(metadata, 'missing'), undefined);
+  });
+
+  it('derives the metadata URL from the GraphQL URL', () => {
+    assert.equal(getMetadataUrl('https://h.example/v1/graphql'), 'https://h.example/v1/metadata');
+    assert.equal(getMetadataUrl('https://h.example/custom/path'), 'https://h.example/v1/metadata');
+  });
+});
+
+const schema = introspectionFromSchema(buildSchema(`
+  type Order { id: Int! user_id: Int! buyer: users }
+  type users { id: Int! full_name: String }
+  type query_root { orders: [Order!]! order(id: Int!): Order users: [users!]! }
+  schema { query: query_root }
+`)).__schema;
+
+describe('table summaries from metadata', () => {
+  const metadata = parseMetadata(exported);
+
+  it('uses the real schema, source and custom root fields', () => {
+    const summary = summarizeTable(schema, 'orders', 'public', findMetadataTable(metadata, 'orders'));
+    assert.equal(summary.basedOn, 'metadata');
+    assert.equal(summary.table.schema, 'sales');
+    assert.equal(summary.table.sqlName, 'sales.orders');
+    assert.equal(summary.table.source, 'default');
+    assert.deepEqual(summary.table.primaryKey, ['id']);
+  });
+
+  function fakeEndpoint(getMetadata: () => Promise<HasuraMetadata | null>) {
+    return { name: 'default', getIntrospectionSchema: async () => schema, getMetadata } as unknown as HasuraEndpoint;
+  }
+
+  it('falls back to introspection when the metadata API fails', async () => {
+    const summary = await loadTableSummary(fakeEndpoint(async () => {
+      throw new Error('403');
+    }), 'users');
+    assert.equal(summary.basedOn, 'introspection');
+  });
+
+  it('marks computed fields from metadata', async () => {
+    const summary = await loadTableSummary(fakeEndpoint(async () => metadata), 'users');
+    assert.equal(summary.basedOn, 'metadata');
+    assert.equal(summary.table.columns.find(c => c.name === 'full_name')?.kind, 'computed_field');
+  });
+});
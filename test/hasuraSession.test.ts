@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingHttpHeaders } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { buildSessionHeaders, getSessionRole } from '../src/utils/hasuraSession.js';
+import { createHasuraEndpoint } from '../src/hasuraEndpoint.js';
+import { createResultCache } from '../src/resultCache.js';
+
+describe('buildSessionHeaders', () => {
+  it('lower-cases and prefixes session variable names', () => {
+    assert.deepEqual(buildSessionHeaders('user', { 'user-id': '42', 'X-Hasura-Org-Id': '7' }), {
+      'x-hasura-user-id': '42',
+      'x-hasura-org-id': '7',
+      'x-hasura-role': 'user',
+    });
+    assert.equal(getSessionRole(buildSessionHeaders('user')), 'user');
+  });
+
+  it('never lets a session variable set the admin secret', () => {
+    for (const name of ['admin-secret', 'Admin-Secret', ' x-hasura-admin-secret ', 'X-HASURA-ADMIN-SECRET']) {
+      assert.throws(() => buildSessionHeaders(undefined, { [name]: 'guess' }), /admin-secret/, name);
+    }
+  });
+
+  it('only sets the role through the role argument', () => {
+    for (const name of ['role', 'X-Hasura-Role']) {
+      assert.throws(() => buildSessionHeaders(undefined, { [name]: 'admin' }), /Use the 'role' argument/, name);
+    }
+  });
+});
+
+describe('endpoint request headers', () => {
+  // Sends one query to a local server standing in for Hasura and returns the headers it got.
+  async function sendWithHeaders(configuredHeaders: Record<string, string>, sessionHeaders: Record<string, string>) {
+    let received: { headers: IncomingHttpHeaders; rawHeaders: string[] } | undefined;
+    const server = createServer((req, res) => {
+      received = { headers: req.headers, rawHeaders: req.rawHeaders };
+      req.resume();
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ data: { ok: true } }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const endpoint = createHasuraEndpoint({
+        name: 'default',
+        endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/graphql`,
+        auth: { adminSecret: 'secret' },
+        headers: configuredHeaders,
+        timeouts: { requestMs: 5000, introspectionMs: 5000 },
+        retries: { attempts: 0, initialDelayMs: 1, maxDelayMs: 1 },
+      }, createResultCache({ enabled: false, maxEntries: 1, ttlMs: 1 }));
+      await endpoint.makeGqlRequest('{ ok }', undefined, sessionHeaders);
+    } finally {
+      server.close();
+    }
+    return received!;
+  }
+
+  it('lets per-call headers replace configured ones whatever their case', async () => {
+    const { headers, rawHeaders } = await sendWithHeaders(
+      { 'X-Hasura-Role': 'admin', 'X-Hasura-Org-Id': '1' },
+      buildSessionHeaders('user', { 'Org-Id': '2' })
+    );
+    assert.equal(headers['x-hasura-role'], 'user');
+    assert.equal(headers['x-hasura-org-id'], '2');
+    assert.equal(rawHeaders.filter(h => h.toLowerCase() === 'x-hasura-role').length, 1);
+  });
+
+  it('never lets per-call headers replace the credentials', async () => {
+    const { headers } = await sendWithHeaders({}, { 'X-Hasura-Admin-Secret': 'guess', Authorization: 'Bearer guess' });
+    assert.equal(headers['x-hasura-admin-secret'], 'secret');
+    assert.equal(headers['authorization'], undefined);
+  });
+});
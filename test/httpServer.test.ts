@@ -0,0 +1,133 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { startHttpServer } from '../src/httpServer.js';
+
+const IDLE_TIMEOUT_MS = 200;
+
+let httpServer: Server;
+let url: string;
+let closedSessions = 0;
+
+before(async () => {
+  httpServer = await startHttpServer({ host: '127.0.0.1', port: 0, path: '/mcp', sessionIdleTimeoutMs: IDLE_TIMEOUT_MS }, () => {
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    server.server.onclose = () => {
+      closedSessions++;
+    };
+    return server;
+  });
+  url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+});
+
+after(() => {
+  httpServer.close();
+});
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+async function openSession(): Promise<string> {
+  const response = await post({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+  });
+  await response.text();
+  assert.equal(response.status, 200);
+  return response.headers.get('mcp-session-id')!;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('startHttpServer sessions', () => {
+  it('closes a session that sends no requests for the idle timeout', async () => {
+    const closedBefore = closedSessions;
+    const sessionId = await openSession();
+
+    await sleep(IDLE_TIMEOUT_MS * 3);
+
+    assert.equal(closedSessions, closedBefore + 1);
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, { 'mcp-session-id': sessionId });
+    await response.text();
+    assert.equal(response.status, 404);
+  });
+
+  it('keeps a session open while it is used', async () => {
+    const closedBefore = closedSessions;
+    const sessionId = await openSession();
+
+    for (let i = 0; i < 4; i++) {
+      await sleep(IDLE_TIMEOUT_MS / 2);
+      const response = await post({ jsonrpc: '2.0', id: i + 2, method: 'ping' }, { 'mcp-session-id': sessionId });
+      await response.text();
+      assert.equal(response.status, 200);
+    }
+    assert.equal(closedSessions, closedBefore);
+  });
+});
+
+describe('startHttpServer bearer token', () => {
+  const token = 'a-token-of-32-characters-or-more';
+  let securedServer: Server;
+  let securedUrl: string;
+
+  before(async () => {
+    securedServer = await startHttpServer(
+      { host: '127.0.0.1', port: 0, path: '/mcp', authToken: token, sessionIdleTimeoutMs: 60_000 },
+      () => new McpServer({ name: 'test', version: '1.0.0' })
+    );
+    securedUrl = `http://127.0.0.1:${(securedServer.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    securedServer.close();
+  });
+
+  async function status(path: string, authorization?: string) {
+    const response = await fetch(`${securedUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        ...(authorization && { authorization }),
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+      }),
+    });
+    await response.text();
+    return { status: response.status, challenge: response.headers.get('www-authenticate') };
+  }
+
+  it('accepts the configured token', async () => {
+    assert.equal((await status('/mcp', `Bearer ${token}`)).status, 200);
+  });
+
+  it('rejects missing, wrong and differently sized tokens with 401', async () => {
+    for (const authorization of [undefined, `Bearer ${token.replace(/.$/, 'x')}`, `Bearer ${token}x`, `Basic ${token}`]) {
+      assert.deepEqual(await status('/mcp', authorization), { status: 401, challenge: 'Bearer' }, authorization);
+    }
+  });
+
+  it('answers 404 outside the MCP path', async () => {
+    assert.equal((await status('/other', `Bearer ${token}`)).status, 404);
+  });
+
+  it('requires a session for requests other than initialize', async () => {
+    const response = await fetch(`${securedUrl}/mcp`, { method: 'GET', headers: { authorization: `Bearer ${token}` } });
+    await response.text();
+    assert.equal(response.status, 400);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSchema, introspectionFromSchema } from 'graphql';
+import { MakeGqlRequest } from '../src/types/IServerTool.js';
+import {
+  buildKeysetCondition,
+  buildKeysetOrderBy,
+  decodeCursor,
+  encodeCursor,
+  fetchKeysetPage,
+  hashFilter,
+  KeysetCursor,
+  resolveKeysetKeys,
+} from '../src/utils/keysetPagination.js';
+
+const schema = introspectionFromSchema(buildSchema(`
+  type users { id: Int! name: String created_at: String }
+  input users_bool_exp { _and: [users_bool_exp!] _or: [users_bool_exp!] id: Int_comparison_exp name: String_comparison_exp }
+  input Int_comparison_exp { _eq: Int _gt: Int _lt: Int _is_null: Boolean }
+  input String_comparison_exp { _eq: String _gt: String _lt: String _is_null: Boolean }
+  enum order_by { asc asc_nulls_last desc desc_nulls_last }
+  input users_order_by { id: order_by name: order_by created_at: order_by }
+  type logs { message: String }
+  type events { name: String code: String! }
+  type query_root {
+    users(where: users_bool_exp, order_by: [users_order_by!], limit: Int, offset: Int): [users!]!
+    users_by_pk(id: Int!): users
+    logs(limit: Int): [logs!]!
+    events(limit: Int): [events!]!
+  }
+  schema { query: query_root }
+`)).__schema;
+
+describe('keyset cursors', () => {
+  const cursor: KeysetCursor = { table: 'users', keys: ['name', 'id'], direction: 'asc', filterHash: hashFilter({ id: { _gt: 1 } }), after: ['bob', 7] };
+
+  it('round-trips through encodeCursor and decodeCursor', () => {
+    assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+  });
+
+  it('rejects cursors that are not ours', () => {
+    assert.throws(() => decodeCursor('not-a-cursor'), /Invalid cursor/);
+    assert.throws(() => decodeCursor(Buffer.from(JSON.stringify({ v: 1, keys: ['id'], after: [] })).toString('base64url')), /Invalid cursor/);
+  });
+
+  it('hashes equal filters the same regardless of key order', () => {
+    assert.equal(hashFilter({ a: 1, b: { c: 2 } }), hashFilter({ b: { c: 2 }, a: 1 }));
+    assert.notEqual(hashFilter({ a: 1 }), hashFilter({ a: 2 }));
+    assert.equal(hashFilter(undefined), hashFilter({}));
+  });
+});
+
+describe('keyset conditions', () => {
+  it('orders every key with nulls last', () => {
+    assert.deepEqual(buildKeysetOrderBy(['name', 'id'], 'desc'), [{ name: 'desc_nulls_last' }, { id: 'desc_nulls_last' }]);
+  });
+
+  it('selects rows after the last key, including null keys that sort last', () => {
+    assert.deepEqual(buildKeysetCondition(['name', 'id'], ['bob', 7], 'asc'), {
+      _or: [
+        { _and: [{ name: { _gt: 'bob' } }] },
+        { _and: [{ name: { _is_null: true } }] },
+        { _and: [{ name: { _eq: 'bob' } }, { id: { _gt: 7 } }] },
+        { _and: [{ name: { _eq: 'bob' } }, { id: { _is_null: true } }] },
+      ],
+    });
+  });
+
+  it('only moves on to later keys after a null key', () => {
+    assert.deepEqual(buildKeysetCondition(['name', 'id'], [null, 7], 'desc'), {
+      _or: [
+        { _and: [{ name: { _is_null: true } }, { id: { _lt: 7 } }] },
+        { _and: [{ name: { _is_null: true } }, { id: { _is_null: true } }] },
+      ],
+    });
+  });
+
+  it('refuses to continue after a null last key instead of matching nothing', () => {
+    assert.throws(() => buildKeysetCondition(['name'], [null], 'asc'), /last sort key 'name' is null/);
+  });
+});
+
+describe('resolveKeysetKeys', () => {
+  it('uses the primary key by default', () => {
+    assert.deepEqual(resolveKeysetKeys(schema, 'users'), { keys: ['id'], primaryKey: ['id'] });
+  });
+
+  it('adds the primary key as tie-breaker after orderBy', () => {
+    assert.deepEqual(resolveKeysetKeys(schema, 'users', 'name').keys, ['name', 'id']);
+  });
+
+  it('rejects unknown columns and tables without a primary key', () => {
+    assert.throws(() => resolveKeysetKeys(schema, 'users', 'nope'), /not a column/);
+    assert.throws(() => resolveKeysetKeys(schema, 'logs'), /no primary key/);
+  });
+
+  it('needs a non-null orderBy when there is no primary key', () => {
+    assert.throws(() => resolveKeysetKeys(schema, 'events', 'name'), /'name' can be null/);
+    assert.deepEqual(resolveKeysetKeys(schema, 'events', 'code'), { keys: ['code'], primaryKey: [] });
+    assert.deepEqual(resolveKeysetKeys(schema, 'users', 'name').keys, ['name', 'id']);
+  });
+});
+
+describe('fetchKeysetPage', () => {
+  function fakeRequest(rows: Array<Record<string, unknown>>) {
+    const calls: Array<{ query: string; variables: any }> = [];
+    const makeGqlRequest = (async (query: string, variables?: any) => {
+      calls.push({ query, variables });
+      return { users: rows };
+    }) as MakeGqlRequest;
+    return { makeGqlRequest, calls };
+  }
+
+  it('asks for one extra row to tell whether there is another page', async () => {
+    const { makeGqlRequest, calls } = fakeRequest([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    const page = await fetchKeysetPage(schema, makeGqlRequest, {}, { tableName: 'users', keys: ['id'], direction: 'asc', pageSize: 2 });
+
+    assert.equal(calls[0].variables.users_limit, 3);
+    assert.deepEqual(page, { rows: [{ id: 1 }, { id: 2 }], hasMore: true, lastKey: [2] });
+  });
+
+  it('combines the filter with the keyset condition and always selects the keys', async () => {
+    const { makeGqlRequest, calls } = fakeRequest([{ name: 'carol', id: 9 }]);
+    const where = { name: { _eq: 'carol' } };
+    const page = await fetchKeysetPage(schema, makeGqlRequest, {}, {
+      tableName: 'users', columns: ['name'], keys: ['id'], direction: 'asc', where, after: [7], pageSize: 5,
+    });
+
+    assert.deepEqual(calls[0].variables.users_where, { _and: [where, buildKeysetCondition(['id'], [7], 'asc')] });
+    assert.match(calls[0].query, /\bname\b[\s\S]*\bid\b/);
+    assert.deepEqual(page, { rows: [{ name: 'carol', id: 9 }], hasMore: false, lastKey: [9] });
+  });
+
+  it('returns a null lastKey for an empty page', async () => {
+    const { makeGqlRequest } = fakeRequest([]);
+    const page = await fetchKeysetPage(schema, makeGqlRequest, {}, { tableName: 'users', keys: ['id'], direction: 'asc', pageSize: 5 });
+    assert.deepEqual(page, { rows: [], hasMore: false, lastKey: null });
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { addLogListener, configureLogger, isLevelEnabled, logger, LogRecord, withLogListener } from '../src/logger.js';
+
+// Captures what the logger writes to stderr while `fn` runs.
+function captureStderr(fn: () => void): string[] {
+  const lines: string[] = [];
+  const write = mock.method(process.stderr, 'write', (chunk: string) => {
+    lines.push(chunk);
+    return true;
+  });
+  try {
+    fn();
+  } finally {
+    write.mock.restore();
+  }
+  return lines;
+}
+
+afterEach(() => configureLogger({ level: 'info', format: 'text' }));
+
+describe('logger', () => {
+  it('compares levels by severity', () => {
+    assert.equal(isLevelEnabled('error', 'warning'), true);
+    assert.equal(isLevelEnabled('warning', 'warning'), true);
+    assert.equal(isLevelEnabled('info', 'warning'), false);
+  });
+
+  it('writes messages at or above the configured level in the text format', () => {
+    configureLogger({ level: 'warning', format: 'text' });
+    const lines = captureStderr(() => {
+      logger.info('hidden');
+      logger.warn('Slow query', { ms: 1200 });
+      logger.critical('Down');
+    });
+    assert.deepEqual(lines, ['[WARN] Slow query {"ms":1200}\n', '[FATAL] Down\n']);
+  });
+
+  it('writes JSON records and serializes errors', () => {
+    configureLogger({ level: 'debug', format: 'json' });
+    const [line] = captureStderr(() => logger.error('Failed', new TypeError('bad input')));
+    const record = JSON.parse(line);
+    assert.equal(record.level, 'error');
+    assert.equal(record.message, 'Failed');
+    assert.equal(record.data.name, 'TypeError');
+    assert.equal(record.data.message, 'bad input');
+    assert.match(record.data.stack, /TypeError: bad input/);
+  });
+
+  it('sends every message to listeners, whatever the local level', () => {
+    configureLogger({ level: 'error', format: 'text' });
+    const records: LogRecord[] = [];
+    const remove = addLogListener(record => records.push(record));
+    captureStderr(() => logger.debug('Connected'));
+    remove();
+    captureStderr(() => logger.debug('After removal'));
+    assert.deepEqual(records.map(r => [r.level, r.message]), [['debug', 'Connected']]);
+  });
+
+  it('sends messages logged inside withLogListener to that listener only', async () => {
+    const shared: string[] = [];
+    const own: string[] = [];
+    const remove = addLogListener(record => shared.push(record.message));
+    try {
+      captureStderr(() => logger.info('Outside'));
+      await withLogListener(record => own.push(record.message), async () => {
+        await Promise.resolve();
+        captureStderr(() => logger.info('Inside the call'));
+      });
+    } finally {
+      remove();
+    }
+    assert.deepEqual(shared, ['Outside']);
+    assert.deepEqual(own, ['Inside the call']);
+  });
+
+  it('keeps logging when a listener throws', () => {
+    const remove = addLogListener(() => {
+      throw new Error('listener failed');
+    });
+    try {
+      assert.deepEqual(captureStderr(() => logger.info('Still written')), ['[INFO] Still written\n']);
+    } finally {
+      remove();
+    }
+  });
+});
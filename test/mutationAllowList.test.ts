@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileMutationAllowList } from '../src/utils/mutationAllowList.js';
+
+describe('compileMutationAllowList', () => {
+  it('matches exact names only exactly', () => {
+    const allowList = compileMutationAllowList(['insert_audit_log_one']);
+    assert.equal(allowList.isAllowed('insert_audit_log_one'), true);
+    assert.equal(allowList.isAllowed('insert_audit_log'), false);
+  });
+
+  it('matches globs against the whole name', () => {
+    const allowList = compileMutationAllowList(['insert_*', 'update_orders.*']);
+    assert.equal(allowList.isAllowed('insert_users'), true);
+    assert.equal(allowList.isAllowed('delete_users_insert_x'), false);
+    // Only '*' is special; the '.' is literal.
+    assert.equal(allowList.isAllowed('update_orders.by_pk'), true);
+    assert.equal(allowList.isAllowed('update_ordersXby_pk'), false);
+  });
+
+  it('matches regular expressions with their flags', () => {
+    const allowList = compileMutationAllowList(['/^update_orders(_by_pk)?$/', '/^DELETE_/i']);
+    assert.equal(allowList.isAllowed('update_orders'), true);
+    assert.equal(allowList.isAllowed('update_orders_by_pk'), true);
+    assert.equal(allowList.isAllowed('update_orders_many'), false);
+    assert.equal(allowList.isAllowed('delete_sessions'), true);
+  });
+
+  it('gives the same answer on every call for patterns with g or y flags', () => {
+    const allowList = compileMutationAllowList(['/^update_.*/g', '/^insert_/y']);
+    for (let i = 0; i < 4; i++) {
+      assert.equal(allowList.isAllowed('update_users'), true);
+      assert.equal(allowList.isAllowed('insert_users'), true);
+    }
+  });
+
+  it('rejects invalid regular expressions', () => {
+    assert.throws(() => compileMutationAllowList(['/(unclosed/']), /Invalid mutation allow-list pattern '\/\(unclosed\/'/);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSchema, introspectionFromSchema, parse } from 'graphql';
+import { HasuraEndpoint, MakeGqlRequest } from '../src/types/IServerTool.js';
+import { previewMutation } from '../src/utils/mutationPreview.js';
+import { RunGraphQLMutationTool } from '../src/tools/RunGraphQLMutationTool.js';
+
+const schema = introspectionFromSchema(buildSchema(`
+  type users { id: Int! active: Boolean }
+  input users_bool_exp { active: Boolean_comparison_exp }
+  input Boolean_comparison_exp { _eq: Boolean }
+  input users_insert_input { active: Boolean }
+  input users_set_input { active: Boolean }
+  type users_aggregate { aggregate: users_aggregate_fields }
+  type users_aggregate_fields { count: Int! }
+  type users_mutation_response { affected_rows: Int! }
+  type query_root { users: [users!]! users_aggregate(where: users_bool_exp): users_aggregate! }
+  type mutation_root {
+    delete_users(where: users_bool_exp!): users_mutation_response
+    update_users(where: users_bool_exp!, _set: users_set_input): users_mutation_response
+    delete_users_by_pk(id: Int!): users
+    insert_users(objects: [users_insert_input!]!): users_mutation_response
+    insert_users_one(object: users_insert_input!): users
+    send_email(to: String!): Boolean
+  }
+  schema { query: query_root mutation: mutation_root }
+`)).__schema;
+
+function fakeRequest(counts: number[]) {
+  const calls: Array<{ query: string; variables: any }> = [];
+  const makeGqlRequest = (async (query: string, variables?: any) => {
+    calls.push({ query, variables });
+    if (query.startsWith('query MutationDryRun')) {
+      return Object.fromEntries(counts.map((count, i) => [`c${i}`, { aggregate: { count } }]));
+    }
+    return { ok: true };
+  }) as MakeGqlRequest;
+  return { makeGqlRequest, calls };
+}
+
+describe('previewMutation', () => {
+  it('counts filtered updates and deletes in one aggregate query with their variables', async () => {
+    const { makeGqlRequest, calls } = fakeRequest([7, 3]);
+    const previews = await previewMutation(parse(`
+      mutation ($active: Boolean, $unused: Int) {
+        gone: delete_users(where: { active: { _eq: $active } }) { affected_rows }
+        update_users(where: { active: { _eq: true } }, _set: { active: false }) { affected_rows }
+      }
+    `), { active: false, unused: 1 }, schema, makeGqlRequest);
+
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].query, 'query MutationDryRun($active: Boolean) { c0: users_aggregate(where: {active: {_eq: $active}}) { aggregate { count } } c1: users_aggregate(where: {active: {_eq: true}}) { aggregate { count } } }');
+    assert.deepEqual(calls[0].variables, { active: false });
+    assert.deepEqual(previews.map(p => [p.field, p.alias, p.action, p.affectedRows]), [
+      ['delete_users', 'gone', 'delete', 7],
+      ['update_users', undefined, 'update', 3],
+    ]);
+  });
+
+  it('warns about an empty where filter', async () => {
+    const { makeGqlRequest } = fakeRequest([100]);
+    const [preview] = await previewMutation(parse('mutation ($w: users_bool_exp!) { delete_users(where: $w) { affected_rows } }'), { w: {} }, schema, makeGqlRequest);
+    assert.match(preview.warning!, /EVERY row of 'users'/);
+    assert.equal(preview.affectedRows, 100);
+  });
+
+  it('sizes inserts and by-primary-key fields without querying', async () => {
+    const { makeGqlRequest, calls } = fakeRequest([]);
+    const previews = await previewMutation(parse(`
+      mutation ($rows: [users_insert_input!]!) {
+        insert_users(objects: $rows) { affected_rows }
+        insert_users_one(object: {}) { id }
+        delete_users_by_pk(id: 1) { id }
+        send_email(to: "a@b.c")
+      }
+    `), { rows: [{}, {}, {}] }, schema, makeGqlRequest);
+
+    assert.equal(calls.length, 0);
+    assert.deepEqual(previews.map(p => [p.action, p.affectedRows]), [['insert', 3], ['insert', 1], ['delete', 1], ['other', null]]);
+  });
+});
+
+describe('run_graphql_mutation confirmation tokens', () => {
+  function fakeTool(requireConfirmation = false, endpointName = 'default') {
+    const { makeGqlRequest, calls } = fakeRequest([2]);
+    const endpoint = { name: endpointName, makeGqlRequest, getIntrospectionSchema: async () => schema } as unknown as HasuraEndpoint;
+    const tool = new RunGraphQLMutationTool(() => endpoint, undefined, requireConfirmation);
+    const run = async (input: Record<string, unknown>) => JSON.parse((await tool.execute(input as any, {})).content[0].text);
+    const executed = () => calls.filter(c => c.query.startsWith('mutation')).length;
+    return { run, executed };
+  }
+  const mutation = 'mutation ($active: Boolean) { delete_users(where: { active: { _eq: $active } }) { affected_rows } }';
+
+  it('runs a dry-run mutation once its token is passed back, and only once', async () => {
+    const { run, executed } = fakeTool();
+    const preview = await run({ mutation, variables: { active: false }, dryRun: true });
+    assert.equal(preview.executed, false);
+    assert.equal(preview.fields[0].affectedRows, 2);
+    assert.equal(executed(), 0);
+
+    // Formatting does not change the fingerprint.
+    assert.deepEqual(await run({ mutation: mutation.replace(/ /g, '  '), variables: { active: false }, confirmationToken: preview.confirmationToken }), { ok: true });
+    assert.equal(executed(), 1);
+    await assert.rejects(run({ mutation, variables: { active: false }, confirmationToken: preview.confirmationToken }), /unknown or has expired/);
+  });
+
+  it('rejects a token used with different variables', async () => {
+    const { run, executed } = fakeTool();
+    const { confirmationToken } = await run({ mutation, variables: { active: false }, dryRun: true });
+    await assert.rejects(run({ mutation, variables: { active: true }, confirmationToken }), /different mutation, different variables/);
+    assert.equal(executed(), 0);
+  });
+
+  it('rejects expired tokens', async () => {
+    const { run } = fakeTool();
+    const now = mock.method(Date, 'now', () => 1_000_000);
+    try {
+      const { confirmationToken } = await run({ mutation, variables: { active: false }, dryRun: true });
+      now.mock.mockImplementation(() => 1_000_000 + 5 * 60 * 1000 + 1);
+      await assert.rejects(run({ mutation, variables: { active: false }, confirmationToken }), /unknown or has expired/);
+    } finally {
+      now.mock.restore();
+    }
+  });
+
+  it('always previews first when confirmation is required', async () => {
+    const { run, executed } = fakeTool(true);
+    const preview = await run({ mutation, variables: { active: false } });
+    assert.equal(preview.dryRun, true);
+    assert.equal(executed(), 0);
+  });
+});
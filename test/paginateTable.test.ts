@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSchema, introspectionFromSchema } from 'graphql';
+import { HasuraEndpoint, MakeGqlRequest } from '../src/types/IServerTool.js';
+import { PaginateTableTool } from '../src/tools/PaginateTableTool.js';
+import { ResponseLimits, shapeToolResult } from '../src/utils/responseFormatter.js';
+
+const schema = introspectionFromSchema(buildSchema(`
+  type users { id: Int! bio: String }
+  input users_bool_exp { _and: [users_bool_exp!] _or: [users_bool_exp!] id: Int_comparison_exp }
+  input Int_comparison_exp { _eq: Int _gt: Int _lt: Int _is_null: Boolean }
+  enum order_by { asc asc_nulls_last desc desc_nulls_last }
+  input users_order_by { id: order_by }
+  type query_root {
+    users(where: users_bool_exp, order_by: [users_order_by!], limit: Int): [users!]!
+    users_by_pk(id: Int!): users
+  }
+  schema { query: query_root }
+`)).__schema;
+
+const users = Array.from({ length: 120 }, (_, i) => ({ id: i + 1, bio: `bio ${i + 1} `.padEnd(500, 'x') }));
+
+// Just enough of Hasura's boolean expressions for the keyset conditions.
+function matches(row: Record<string, any>, where: Record<string, any> | undefined): boolean {
+  return Object.entries(where || {}).every(([key, condition]) => {
+    if (key === '_and') {
+      return condition.every((c: any) => matches(row, c));
+    }
+    if (key === '_or') {
+      return condition.some((c: any) => matches(row, c));
+    }
+    return Object.entries(condition as Record<string, any>).every(([op, value]) =>
+      op === '_eq' ? row[key] === value
+        : op === '_gt' ? row[key] > value
+          : op === '_lt' ? row[key] < value
+            : (row[key] === null) === value
+    );
+  });
+}
+
+const makeGqlRequest = (async (_query: string, variables?: any) => {
+  const rows = users.filter(u => matches(u, variables.users_where));
+  return { users: (variables.users_order_by[0].id.startsWith('desc') ? rows.reverse() : rows).slice(0, variables.users_limit) };
+}) as MakeGqlRequest;
+
+const endpoint = { name: 'default', makeGqlRequest, getIntrospectionSchema: async () => schema } as unknown as HasuraEndpoint;
+
+async function readAll(limits: ResponseLimits, input: Record<string, unknown>) {
+  const tool = new PaginateTableTool(() => endpoint, limits, 'json');
+  const seen: number[] = [];
+  let cursor: string | undefined;
+  let pages = 0;
+  do {
+    const result = shapeToolResult(await tool.execute({ tableName: 'users', pageSize: 50, ...input, cursor } as any, {}), limits, 'json');
+    const page = JSON.parse(result.content[0].text);
+    assert.equal(page._truncated, undefined);
+    seen.push(...page.rows.map((r: { id: number }) => r.id));
+    cursor = page.nextCursor ?? undefined;
+    pages++;
+  } while (cursor);
+  return { seen, pages };
+}
+
+describe('paginate_table', () => {
+  const limits: ResponseLimits = { maxBytes: 8000, maxStringLength: 2000 };
+
+  it('returns every row across pages that go over the response budget', async () => {
+    const { seen, pages } = await readAll(limits, {});
+    assert.deepEqual(seen, users.map(u => u.id));
+    assert.ok(pages > 120 / 50);
+  });
+
+  it('returns every row in descending order too', async () => {
+    const { seen } = await readAll(limits, { direction: 'desc' });
+    assert.deepEqual(seen, users.map(u => u.id).reverse());
+  });
+
+  it('returns the whole page when it fits', async () => {
+    const { pages } = await readAll({ maxBytes: 1_000_000, maxStringLength: 2000 }, {});
+    assert.equal(pages, 3);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSchema, introspectionFromSchema } from 'graphql';
+import { HasuraEndpoint } from '../src/types/IServerTool.js';
+import { buildSelectQuery } from '../src/utils/queryBuilder.js';
+import { BuildQueryTool } from '../src/tools/BuildQueryTool.js';
+
+const schema = introspectionFromSchema(buildSchema(`
+  enum order_by { asc desc }
+  input users_bool_exp { id: Int_comparison_exp }
+  input Int_comparison_exp { _eq: Int }
+  input users_order_by { id: order_by }
+  input posts_order_by { id: order_by }
+  type users { id: Int! name: String posts(limit: Int, order_by: [posts_order_by!]): [posts!]! }
+  type posts { id: Int! title: String! }
+  type query_root {
+    users(where: users_bool_exp, order_by: [users_order_by!], limit: Int, offset: Int): [users!]!
+    server_time: String
+  }
+  schema { query: query_root }
+`)).__schema;
+
+describe('buildSelectQuery', () => {
+  it('selects every scalar column by default', () => {
+    assert.deepEqual(buildSelectQuery(schema, 'users', {}), {
+      query: 'query BuildQuery {\n  users {\n    id\n    name\n  }\n}',
+      variables: {},
+    });
+  });
+
+  it('passes arguments as variables typed from the schema, including nested relationships', () => {
+    const built = buildSelectQuery(schema, 'users', {
+      columns: ['id'],
+      where: { id: { _eq: 1 } },
+      limit: 10,
+      relationships: { posts: { columns: ['title'], orderBy: { id: 'desc' }, limit: 5 } },
+    }, 'Recent');
+    assert.equal(built.query, [
+      'query Recent($users_where: users_bool_exp, $users_limit: Int, $users_posts_order_by: [posts_order_by!], $users_posts_limit: Int) {',
+      '  users(where: $users_where, limit: $users_limit) {',
+      '    id',
+      '    posts(order_by: $users_posts_order_by, limit: $users_posts_limit) {',
+      '      title',
+      '    }',
+      '  }',
+      '}',
+    ].join('\n'));
+    assert.deepEqual(built.variables, {
+      users_where: { id: { _eq: 1 } },
+      users_limit: 10,
+      users_posts_order_by: { id: 'desc' },
+      users_posts_limit: 5,
+    });
+  });
+
+  it('names the valid options when the input does not match the schema', () => {
+    assert.throws(() => buildSelectQuery(schema, 'server_time', {}), /'server_time' is not a query root field/);
+    assert.throws(() => buildSelectQuery(schema, 'users', { columns: ['email'] }), /Unknown column\(s\) on 'users': email\. Available columns: id, name\./);
+    assert.throws(() => buildSelectQuery(schema, 'users', { relationships: { comments: {} } }), /Unknown relationship 'comments' on 'users'\. Available relationships: posts\./);
+    assert.throws(() => buildSelectQuery(schema, 'users', { relationships: { posts: { offset: 5 } } }), /'users\.posts' does not accept 'offset' \(offset\)\. Supported arguments: limit, order_by\./);
+  });
+});
+
+describe('BuildQueryTool', () => {
+  function makeTool(requests: unknown[][]) {
+    const endpoint = {
+      name: 'default',
+      getIntrospectionSchema: async () => schema,
+      makeGqlRequest: async (...args: unknown[]) => {
+        requests.push(args);
+        return { users: [{ id: 1 }] };
+      },
+    } as unknown as HasuraEndpoint;
+    return new BuildQueryTool(() => endpoint, 25);
+  }
+
+  it('returns the query without running it by default', async () => {
+    const requests: unknown[][] = [];
+    const result = await makeTool(requests).execute({ tableName: 'users', columns: ['id'] } as any, {});
+    const body = JSON.parse(result.content[0].text);
+    assert.equal(body.result, undefined);
+    assert.equal(body._warning, undefined);
+    assert.equal(requests.length, 0);
+  });
+
+  it('applies the server row limit when executing without one', async () => {
+    const requests: unknown[][] = [];
+    const result = await makeTool(requests).execute({ tableName: 'users', columns: ['id'], execute: true } as any, {});
+    const body = JSON.parse(result.content[0].text);
+    assert.deepEqual(body.variables, { users_limit: 25 });
+    assert.deepEqual(body.result, { users: [{ id: 1 }] });
+    assert.match(body._warning, /row limit of 25/);
+    assert.equal(requests.length, 1);
+    assert.deepEqual(requests[0][1], { users_limit: 25 });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSchema, introspectionFromSchema, parse, print } from 'graphql';
+import { analyzeQueryCost, findCostViolations, QueryCostLimits, suggestLimitedQuery } from '../src/utils/queryCost.js';
+
+const schema = introspectionFromSchema(buildSchema(`
+  type users { id: Int! name: String posts(limit: Int): [posts!]! profile: profiles }
+  type posts { id: Int! title: String comments(limit: Int): [comments!]! author: users! }
+  type comments { id: Int! body: String }
+  type profiles { bio: String }
+  type users_aggregate { aggregate: users_aggregate_fields nodes: [users!]! }
+  type users_aggregate_fields { count: Int! }
+  type query_root {
+    users(limit: Int, offset: Int): [users!]!
+    users_by_pk(id: Int!): users
+    users_aggregate(limit: Int): users_aggregate!
+  }
+  schema { query: query_root }
+`)).__schema;
+
+const ASSUMED = 100;
+const cost = (query: string, variables: Record<string, unknown> = {}) => analyzeQueryCost(parse(query), schema, variables, ASSUMED);
+
+describe('analyzeQueryCost', () => {
+  it('counts depth from the root field down to the leaves', () => {
+    assert.equal(cost('{ users_by_pk(id: 1) { id } }').depth, 2);
+    assert.equal(cost('{ users(limit: 1) { posts(limit: 1) { comments(limit: 1) { body } } } }').depth, 4);
+  });
+
+  it('multiplies limits along nested lists', () => {
+    const result = cost('{ users(limit: 10) { posts(limit: 5) { id } profile { bio } } }');
+    assert.deepEqual(result.unboundedLists, []);
+    // 10 users + 10 profiles + 50 posts
+    assert.equal(result.estimatedRows, 70);
+  });
+
+  it('reports lists without a limit by response path and assumes their size', () => {
+    const result = cost('{ people: users { posts { id } } }');
+    assert.deepEqual(result.unboundedLists, [
+      { path: 'people', limitField: 'users' },
+      { path: 'people.posts', limitField: 'posts' },
+    ]);
+    assert.equal(result.estimatedRows, ASSUMED + ASSUMED * ASSUMED);
+  });
+
+  it('reads limits from variables, treating null and missing ones as unbounded', () => {
+    const query = 'query ($n: Int) { users(limit: $n) { id } }';
+    assert.equal(cost(query, { n: 3 }).estimatedRows, 3);
+    assert.equal(cost(query, { n: null }).unboundedLists.length, 1);
+    assert.equal(cost(query).unboundedLists.length, 1);
+  });
+
+  it('follows fragments and inline fragments', () => {
+    const result = cost(`
+      { users(limit: 2) { ...UserPosts ... on users { profile { bio } } } }
+      fragment UserPosts on users { posts { comments(limit: 3) { id } } }
+    `);
+    assert.deepEqual(result.unboundedLists.map(l => l.path), ['users.posts']);
+    assert.equal(result.depth, 4);
+    // 2 users + 200 posts + 600 comments + 2 profiles
+    assert.equal(result.estimatedRows, 804);
+  });
+
+  it('bounds aggregate nodes by the limit of the aggregate field', () => {
+    assert.deepEqual(cost('{ users_aggregate(limit: 5) { nodes { id } } }').unboundedLists, []);
+    assert.deepEqual(cost('{ users_aggregate { nodes { id } } }').unboundedLists, [{ path: 'users_aggregate.nodes', limitField: 'users_aggregate' }]);
+  });
+});
+
+describe('findCostViolations', () => {
+  const limits: QueryCostLimits = { maxDepth: 3, maxUnboundedLists: 1, maxEstimatedRows: 1000, assumedListSize: ASSUMED };
+
+  it('accepts a query within every limit', () => {
+    assert.deepEqual(findCostViolations(cost('{ users { id } }'), limits), []);
+  });
+
+  it('explains every exceeded limit', () => {
+    const violations = findCostViolations(cost('{ users { posts { comments { id } } } }'), limits);
+    assert.equal(violations.length, 3);
+    assert.match(violations[0], /depth 4/);
+    assert.match(violations[1], /users, users\.posts, users\.posts\.comments/);
+    assert.match(violations[2], /1010100 rows/);
+  });
+});
+
+describe('suggestLimitedQuery', () => {
+  it('adds a limit to every unbounded list and keeps other arguments', () => {
+    const suggestion = suggestLimitedQuery(parse('{ users(offset: 5) { posts { id } } }'), schema, {}, ASSUMED);
+    assert.equal(suggestion, print(parse('{ users(offset: 5, limit: 10) { posts(limit: 10) { id } } }')));
+    assert.deepEqual(cost(suggestion!).unboundedLists, []);
+  });
+
+  it('adds the limit to the aggregate field for unbounded nodes', () => {
+    const suggestion = suggestLimitedQuery(parse('{ users_aggregate { nodes { id } } }'), schema, {}, ASSUMED);
+    assert.equal(suggestion, print(parse('{ users_aggregate(limit: 10) { nodes { id } } }')));
+  });
+
+  it('returns null when every list is bounded', () => {
+    assert.equal(suggestLimitedQuery(parse('{ users(limit: 1) { id } }'), schema, {}, ASSUMED), null);
+  });
+});
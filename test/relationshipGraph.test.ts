@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSchema, introspectionFromSchema } from 'graphql';
+import { buildRelationshipGraph, limitRelationshipGraph, toDot, toMermaid } from '../src/utils/relationshipGraph.js';
+
+const schema = introspectionFromSchema(buildSchema(`
+  type users { id: Int! orders: [orders!]! orders_aggregate: orders_aggregate! }
+  type orders { id: Int! buyer: users! items: [items!]! }
+  type items { id: Int! product: products }
+  type products { sku: String! }
+  type tags { name: String! }
+  type orders_aggregate { count: Int }
+  type query_root {
+    users: [users!]!
+    allOrders: [orders!]!
+    orders_aggregate: orders_aggregate!
+    items: [items!]!
+    products: [products!]!
+    tags: [tags!]!
+  }
+  schema { query: query_root }
+`)).__schema;
+
+const graph = buildRelationshipGraph(schema);
+
+describe('buildRelationshipGraph', () => {
+  it('finds tables by their root fields and the relationships between them', () => {
+    assert.deepEqual(graph.tables, ['items', 'orders', 'products', 'tags', 'users']);
+    assert.deepEqual(graph.relationships, [
+      { from: 'users', to: 'orders', field: 'orders', type: 'array' },
+      { from: 'orders', to: 'users', field: 'buyer', type: 'object' },
+      { from: 'orders', to: 'items', field: 'items', type: 'array' },
+      { from: 'items', to: 'products', field: 'product', type: 'object' },
+    ]);
+  });
+});
+
+describe('limitRelationshipGraph', () => {
+  it('keeps the tables within the given depth, by type or root field name', () => {
+    const limited = limitRelationshipGraph(schema, graph, 'allOrders', 1);
+    assert.deepEqual(limited.tables, ['items', 'orders', 'users']);
+    assert.deepEqual(limited.relationships.map(e => `${e.from}.${e.field}`), ['orders.buyer', 'orders.items']);
+  });
+
+  it('follows relationships further with a larger depth', () => {
+    const limited = limitRelationshipGraph(schema, graph, 'users', 2);
+    assert.deepEqual(limited.tables, ['items', 'orders', 'users']);
+    assert.deepEqual(limited.relationships.map(e => `${e.from}.${e.field}`), ['users.orders', 'orders.buyer', 'orders.items']);
+  });
+
+  it('throws for unknown tables', () => {
+    assert.throws(() => limitRelationshipGraph(schema, graph, 'nope', 1), /Table 'nope' not found/);
+  });
+});
+
+describe('graph rendering', () => {
+  const small = limitRelationshipGraph(schema, graph, 'items', 1);
+
+  it('renders Mermaid ER diagrams, listing unconnected tables on their own', () => {
+    assert.equal(toMermaid(small), 'erDiagram\n  items }o--|| products : "product"');
+    assert.equal(toMermaid({ tables: ['tags', 'users'], relationships: [{ from: 'users', to: 'users', field: 'manager', type: 'object' }] }),
+      'erDiagram\n  tags\n  users }o--|| users : "manager"');
+    assert.match(toMermaid(graph), /users \|\|--o\{ orders : "orders"/);
+  });
+
+  it('renders Graphviz DOT with crow arrowheads for array relationships', () => {
+    assert.equal(toDot(small), [
+      'digraph relationships {',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+      '  "items";',
+      '  "products";',
+      '  "items" -> "products" [label="product (object)"];',
+      '}',
+    ].join('\n'));
+    assert.match(toDot(graph), /"orders" -> "items" \[label="items \(array\)", arrowhead=crow\];/);
+  });
+});
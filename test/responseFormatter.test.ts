@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResponseLimits, shapeText, shapeToolResult, shapeValue } from '../src/utils/responseFormatter.js';
+
+const limits: ResponseLimits = { maxBytes: 2000, maxStringLength: 100 };
+const rows = (count: number, bioLength = 20) => Array.from({ length: count }, (_, i) => ({ id: i, bio: 'x'.repeat(bioLength) }));
+
+describe('shapeValue', () => {
+  it('returns a value that fits unchanged, long strings included', () => {
+    const value = { users: rows(2, 500) };
+    const shaped = shapeValue(value, limits, 'json');
+    assert.deepEqual(shaped.truncations, []);
+    assert.deepEqual(JSON.parse(shaped.text), value);
+  });
+
+  it('cuts long strings first when the value does not fit', () => {
+    const shaped = shapeValue({ users: rows(4, 600) }, limits, 'compact');
+    assert.ok(Buffer.byteLength(shaped.text) <= limits.maxBytes);
+    const parsed = JSON.parse(shaped.text);
+    assert.equal(parsed.users.length, 4);
+    assert.equal(parsed.users[0].bio, `${'x'.repeat(100)}…`);
+    assert.deepEqual(parsed._truncated.cuts[0], { path: '$.users[0].bio', kind: 'string', originalLength: 600, keptLength: 100 });
+  });
+
+  it('cuts arrays to the longest length that fits and reports it', () => {
+    const shaped = shapeValue({ users: rows(200) }, limits, 'json');
+    assert.ok(Buffer.byteLength(shaped.text) <= limits.maxBytes);
+    const parsed = JSON.parse(shaped.text);
+    const cut = shaped.truncations.find(t => t.path === '$.users')!;
+    assert.equal(cut.kind, 'array');
+    assert.equal(cut.originalLength, 200);
+    assert.equal(parsed.users.length, cut.keptLength);
+    assert.ok(cut.keptLength > 1);
+  });
+
+  it('keeps one item and shortens strings when a single item is too large', () => {
+    const shaped = shapeValue({ users: rows(3, 5000) }, { maxBytes: 1000, maxStringLength: 2000 }, 'json');
+    const parsed = JSON.parse(shaped.text);
+    assert.equal(parsed.users.length, 1);
+    assert.ok(parsed.users[0].bio.length < 1000);
+  });
+
+  it('wraps cut arrays at the top level in data', () => {
+    const parsed = JSON.parse(shapeValue(rows(200), limits, 'json').text);
+    assert.ok(Array.isArray(parsed.data));
+    assert.equal(parsed._truncated.cuts[0].path, '$');
+  });
+
+  it('renders lists of rows as Markdown tables with nested values flattened', () => {
+    const text = shapeValue({ users: [{ id: 1, name: 'a|b', author: { name: 'c' } }], total: 1 }, limits, 'markdown').text;
+    assert.equal(text, [
+      '- `$.total`: 1',
+      '',
+      '### $.users',
+      '',
+      '| id | name | author.name |',
+      '| --- | --- | --- |',
+      '| 1 | a\\|b | c |',
+    ].join('\n'));
+  });
+
+  it('ends Markdown with a note listing the cuts', () => {
+    const text = shapeValue({ users: rows(200) }, limits, 'markdown').text;
+    assert.match(text, /> Cut to fit the response budget/);
+    assert.match(text, /- `\$\.users`: array cut from 200 to \d+/);
+  });
+});
+
+describe('shapeText', () => {
+  it('cuts text to the budget with a note', () => {
+    const shaped = shapeText('é'.repeat(5000), limits);
+    assert.ok(Buffer.byteLength(shaped.text) <= limits.maxBytes);
+    assert.match(shaped.text, /\[Truncated: \d+ of 10000 bytes shown/);
+    assert.equal(shapeText('short', limits).text, 'short');
+  });
+});
+
+describe('shapeToolResult', () => {
+  it('shapes JSON content and cuts other text', () => {
+    const result = shapeToolResult({
+      content: [
+        { type: 'text' as const, text: JSON.stringify({ users: rows(200) }) },
+        { type: 'text' as const, text: 'type Query { a: Int }\n'.repeat(200) },
+      ],
+    }, limits, 'compact');
+    assert.ok(JSON.parse(result.content[0].text)._truncated);
+    assert.match(result.content[1].text, /\[Truncated/);
+  });
+});
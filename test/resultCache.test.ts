@@ -0,0 +1,74 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { parse } from 'graphql';
+import { createResultCache, getCacheUsage, getResultCacheKey, runWithCache } from '../src/resultCache.js';
+
+const config = { enabled: true, maxEntries: 2, ttlMs: 1000 };
+
+describe('createResultCache', () => {
+  it('returns copies, so callers cannot change cached results', () => {
+    const cache = createResultCache(config);
+    cache.set('a', { rows: [1] }, cache.generation);
+    (cache.get('a')!.value as { rows: number[] }).rows.push(2);
+    assert.deepEqual(cache.get('a')!.value, { rows: [1] });
+  });
+
+  it('drops the least recently used entry when full', () => {
+    const cache = createResultCache(config);
+    cache.set('a', 1, cache.generation);
+    cache.set('b', 2, cache.generation);
+    cache.get('a');
+    cache.set('c', 3, cache.generation);
+    assert.equal(cache.get('b'), undefined);
+    assert.equal(cache.get('a')!.value, 1);
+    assert.equal(cache.get('c')!.value, 3);
+  });
+
+  it('expires entries after the TTL', () => {
+    const now = mock.method(Date, 'now', () => 0);
+    try {
+      const cache = createResultCache(config);
+      cache.set('a', 1, cache.generation);
+      now.mock.mockImplementation(() => config.ttlMs + 1);
+      assert.equal(cache.get('a'), undefined);
+    } finally {
+      now.mock.restore();
+    }
+  });
+
+  it('does not store a result fetched before the cache was cleared', () => {
+    const cache = createResultCache(config);
+    const generation = cache.generation;
+    cache.clear('mutation');
+    cache.set('a', 'stale', generation);
+    assert.equal(cache.get('a'), undefined);
+  });
+});
+
+describe('getResultCacheKey', () => {
+  it('ignores formatting and key order but not the role', () => {
+    const key = getResultCacheKey('default', parse('{ users { id } }'), { b: 1, a: 2 }, { 'x-hasura-role': 'user' });
+    assert.equal(getResultCacheKey('default', parse('query {\n  users {\n    id\n  }\n}'), { a: 2, b: 1 }, { 'x-hasura-role': 'user' }), key);
+    assert.notEqual(getResultCacheKey('default', parse('{ users { id } }'), { b: 1, a: 2 }, { 'x-hasura-role': 'admin' }), key);
+    assert.notEqual(getResultCacheKey('other', parse('{ users { id } }'), { b: 1, a: 2 }, { 'x-hasura-role': 'user' }), key);
+  });
+});
+
+describe('runWithCache', () => {
+  const result = (value: unknown) => ({ content: [{ type: 'text' as const, text: JSON.stringify(value) }] });
+
+  it('adds a _cache entry only when something came from the cache', async () => {
+    const fresh = await runWithCache(true, async () => result({ rows: [] }));
+    assert.deepEqual(JSON.parse(fresh.content[0].text), { rows: [] });
+
+    const cached = await runWithCache(true, async () => {
+      const usage = getCacheUsage()!;
+      usage.hits++;
+      usage.oldestHitAt = Date.now();
+      return result([1, 2]);
+    });
+    const parsed = JSON.parse(cached.content[0].text);
+    assert.deepEqual(parsed.data, [1, 2]);
+    assert.equal(parsed._cache.hits, 1);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSchema, introspectionFromSchema, IntrospectionSchema } from 'graphql';
+import { diffSchemas, SchemaChange } from '../src/utils/schemaDiff.js';
+
+const introspect = (sdl: string): IntrospectionSchema => introspectionFromSchema(buildSchema(sdl)).__schema;
+
+const base = `
+  type users { id: Int! name: String }
+  input users_bool_exp { id: Int }
+  enum users_select_column { id name }
+  type Query { users(where: users_bool_exp): [users!]! }
+`;
+
+const byPath = (changes: SchemaChange[]) => Object.fromEntries(changes.map(c => [c.path, c]));
+
+describe('diffSchemas', () => {
+  it('finds no changes between equal schemas', () => {
+    const diff = diffSchemas(introspect(base), introspect(base));
+    assert.deepEqual(diff, { changes: [], summary: { added: 0, removed: 0, changed: 0, breaking: 0 } });
+  });
+
+  it('flags removals and type changes as breaking and additions as not', () => {
+    const diff = diffSchemas(introspect(base), introspect(`
+      type users { id: String! email: String }
+      input users_bool_exp { id: Int }
+      enum users_select_column { id name email }
+      type posts { id: Int! }
+      type Query { users(where: users_bool_exp): [users!]! posts: [posts!]! }
+    `));
+    const changes = byPath(diff.changes);
+
+    assert.equal(changes['users.name'].change, 'removed');
+    assert.equal(changes['users.name'].breaking, true);
+    assert.equal(changes['users.id'].change, 'changed');
+    assert.equal(changes['users.id'].detail, 'Type changed from Int! to String!.');
+    assert.equal(changes['users.email'].breaking, false);
+    assert.equal(changes['users_select_column.email'].target, 'enumValue');
+    assert.equal(changes['posts'].change, 'added');
+    assert.equal(changes['Query.posts'].breaking, false);
+    assert.deepEqual(diff.summary, { added: 4, removed: 1, changed: 1, breaking: 2 });
+  });
+
+  it('treats new required arguments as breaking and optional ones as not', () => {
+    const diff = diffSchemas(introspect(base), introspect(`
+      type users { id: Int! name: String }
+      input users_bool_exp { id: Int name: String! }
+      enum users_select_column { id name }
+      type Query { users(where: users_bool_exp, limit: Int, tenant: String!): [users!]! }
+    `));
+    const changes = byPath(diff.changes);
+
+    assert.equal(changes['Query.users(limit)'].breaking, false);
+    assert.equal(changes['Query.users(tenant)'].breaking, true);
+    assert.equal(changes['Query.users(tenant)'].target, 'argument');
+    assert.equal(changes['users_bool_exp.name'].target, 'inputField');
+    assert.equal(changes['users_bool_exp.name'].breaking, true);
+  });
+
+  it('reports removed enum values and kind changes', () => {
+    const diff = diffSchemas(introspect(base), introspect(`
+      type users { id: Int! name: String }
+      type users_bool_exp { id: Int }
+      enum users_select_column { id }
+      type Query { users: [users!]! }
+    `));
+    const changes = byPath(diff.changes);
+
+    assert.equal(changes['users_select_column.name'].change, 'removed');
+    assert.equal(changes['users_bool_exp'].detail, 'Kind changed from INPUT_OBJECT to OBJECT.');
+    assert.equal(changes['Query.users(where)'].change, 'removed');
+  });
+});
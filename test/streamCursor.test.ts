@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSchema, introspectionFromSchema } from 'graphql';
+import { HasuraEndpoint } from '../src/types/IServerTool.js';
+import { SubscriptionSink } from '../src/utils/graphqlSubscription.js';
+import { buildStreamSubscription, findStreamField } from '../src/utils/streamCursor.js';
+import { ReadStreamTool } from '../src/tools/ReadStreamTool.js';
+
+const schema = introspectionFromSchema(buildSchema(`
+  enum cursor_ordering { ASC DESC }
+  input events_stream_cursor_input { initial_value: events_stream_cursor_value_input! ordering: cursor_ordering }
+  input events_stream_cursor_value_input { id: Int created_at: String }
+  input events_bool_exp { kind: String_comparison_exp }
+  input String_comparison_exp { _eq: String }
+  type events { id: Int! kind: String! created_at: String! }
+  type query_root { events: [events!]! }
+  type subscription_root {
+    events: [events!]!
+    events_stream(batch_size: Int!, cursor: [events_stream_cursor_input]!, where: events_bool_exp): [events!]!
+  }
+  schema { query: query_root subscription: subscription_root }
+`)).__schema;
+
+describe('buildStreamSubscription', () => {
+  it('starts after the cursor value and always selects the cursor column', () => {
+    const built = buildStreamSubscription(schema, 'events', {
+      columns: ['kind'], cursorColumn: 'id', startValue: 10, ordering: 'asc', where: { kind: { _eq: 'login' } }, batchSize: 50,
+    });
+    assert.equal(built.query, [
+      'subscription ReadStream($batch_size: Int!, $cursor: [events_stream_cursor_input]!, $where: events_bool_exp) {',
+      '  events_stream(batch_size: $batch_size, cursor: $cursor, where: $where) {',
+      '    id',
+      '    kind',
+      '  }',
+      '}',
+    ].join('\n'));
+    assert.deepEqual(built.variables, {
+      batch_size: 50,
+      cursor: [{ initial_value: { id: 10 }, ordering: 'ASC' }],
+      where: { kind: { _eq: 'login' } },
+    });
+  });
+
+  it('names the streamable tables and valid columns on bad input', () => {
+    assert.throws(() => findStreamField(schema, 'users'), /no 'users_stream' subscription field\. Tables that can be streamed: events\./);
+    const request = { cursorColumn: 'id', startValue: 0, ordering: 'desc' as const, batchSize: 10 };
+    assert.throws(() => buildStreamSubscription(schema, 'events', { ...request, cursorColumn: 'seq' }), /Unknown cursor column 'seq'/);
+    assert.throws(() => buildStreamSubscription(schema, 'events', { ...request, columns: ['nope'] }), /Unknown column\(s\) on 'events': nope/);
+  });
+});
+
+describe('ReadStreamTool', () => {
+  // Emits the given batches one per tick, then stays open until closed.
+  function makeTool(batches: Array<Array<Record<string, unknown>>>) {
+    let closed = false;
+    const endpoint = {
+      name: 'default',
+      getIntrospectionSchema: async () => schema,
+      subscribe: (_query: string, _variables: unknown, _headers: unknown, sink: SubscriptionSink) => {
+        (async () => {
+          for (const batch of batches) {
+            await new Promise(resolve => setImmediate(resolve));
+            if (closed) {
+              return;
+            }
+            sink.next({ events_stream: batch });
+          }
+        })();
+        return () => {
+          closed = true;
+        };
+      },
+    } as unknown as HasuraEndpoint;
+    return { tool: new ReadStreamTool(() => endpoint), isClosed: () => closed };
+  }
+
+  async function read(tool: ReadStreamTool, input: Record<string, unknown>) {
+    const result = await tool.execute({ tableName: 'events', cursorColumn: 'id', startValue: 0, ...input } as any, {});
+    return JSON.parse(result.content[0].text);
+  }
+
+  it('returns the rows and the cursor to continue from once the stream goes quiet', async () => {
+    const { tool, isClosed } = makeTool([[{ id: 1 }, { id: 2 }], [], [{ id: 3 }]]);
+    const result = await read(tool, { waitMs: 50 });
+    assert.deepEqual(result.rows, [{ id: 1 }, { id: 2 }, { id: 3 }]);
+    assert.equal(result.batches, 2);
+    assert.deepEqual(result.nextCursor, { cursorColumn: 'id', startValue: 3, ordering: 'asc' });
+    assert.equal(result.caughtUp, true);
+    assert.equal(isClosed(), true);
+  });
+
+  it('stops at maxRows and points the cursor at the last row kept', async () => {
+    const { tool } = makeTool([[{ id: 1 }, { id: 2 }], [{ id: 3 }, { id: 4 }], [{ id: 5 }]]);
+    const result = await read(tool, { maxRows: 3, waitMs: 1000 });
+    assert.equal(result.rowCount, 3);
+    assert.deepEqual(result.nextCursor.startValue, 3);
+    assert.equal(result.caughtUp, false);
+  });
+
+  it('keeps the start value when no rows arrive', async () => {
+    const { tool } = makeTool([]);
+    const result = await read(tool, { startValue: '2024-01-01', cursorColumn: 'created_at', ordering: 'desc', waitMs: 20 });
+    assert.deepEqual(result.rows, []);
+    assert.deepEqual(result.nextCursor, { cursorColumn: 'created_at', startValue: '2024-01-01', ordering: 'desc' });
+    assert.equal(result.caughtUp, true);
+  });
+});
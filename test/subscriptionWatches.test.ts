@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HasuraEndpoint } from '../src/types/IServerTool.js';
+import { SubscriptionSink } from '../src/utils/graphqlSubscription.js';
+import { createWatchRegistry, MAX_ACTIVE_WATCHES, WATCH_EVENT_BUFFER } from '../src/subscriptionWatches.js';
+
+// An endpoint whose subscriptions are driven by the test through the captured sinks.
+function fakeEndpoint() {
+  const sinks: SubscriptionSink[] = [];
+  let closed = 0;
+  const endpoint = {
+    name: 'default',
+    subscribe: (_query: string, _variables: unknown, _headers: unknown, sink: SubscriptionSink) => {
+      sinks.push(sink);
+      return () => {
+        closed++;
+      };
+    },
+  } as unknown as HasuraEndpoint;
+  return { endpoint, sinks, closedCount: () => closed };
+}
+
+describe('createWatchRegistry', () => {
+  it('keeps the latest events and notifies on updates', () => {
+    const { endpoint, sinks } = fakeEndpoint();
+    const registry = createWatchRegistry();
+    const updates: string[] = [];
+    registry.onUpdate(uri => updates.push(uri));
+
+    const watch = registry.start(endpoint, 'subscription { users { id } }', undefined, {});
+    for (let i = 0; i < WATCH_EVENT_BUFFER + 5; i++) {
+      sinks[0].next({ users: [{ id: i }] });
+    }
+
+    const snapshot = registry.get(watch.id)!;
+    assert.equal(snapshot.eventCount, WATCH_EVENT_BUFFER + 5);
+    assert.equal(snapshot.events.length, WATCH_EVENT_BUFFER);
+    assert.deepEqual(snapshot.events[0].data, { users: [{ id: 5 }] });
+    assert.equal(updates.length, WATCH_EVENT_BUFFER + 5);
+    assert.equal(updates[0], watch.uri);
+  });
+
+  it('records errors and completion in the status', () => {
+    const { endpoint, sinks } = fakeEndpoint();
+    const registry = createWatchRegistry();
+    const failing = registry.start(endpoint, 'subscription { a }', undefined, {});
+    const completing = registry.start(endpoint, 'subscription { b }', undefined, {});
+
+    sinks[0].error(new Error('connection lost'));
+    sinks[1].complete();
+
+    assert.equal(registry.get(failing.id)!.status, 'failed');
+    assert.equal(registry.get(failing.id)!.error, 'connection lost');
+    assert.equal(registry.get(completing.id)!.status, 'completed');
+  });
+
+  it('closes the subscription and removes the watch on stop', () => {
+    const { endpoint, closedCount } = fakeEndpoint();
+    const registry = createWatchRegistry();
+    let listChanges = 0;
+    registry.onListChanged(() => listChanges++);
+
+    const watch = registry.start(endpoint, 'subscription { a }', undefined, {});
+    registry.stop(watch.id);
+
+    assert.equal(closedCount(), 1);
+    assert.equal(registry.get(watch.id), undefined);
+    assert.equal(listChanges, 2);
+    assert.throws(() => registry.stop(watch.id), /Unknown watch/);
+  });
+
+  it('limits active watches but not failed or completed ones', () => {
+    const { endpoint, sinks } = fakeEndpoint();
+    const registry = createWatchRegistry();
+    for (let i = 0; i < MAX_ACTIVE_WATCHES; i++) {
+      registry.start(endpoint, 'subscription { a }', undefined, {});
+    }
+    assert.throws(() => registry.start(endpoint, 'subscription { a }', undefined, {}), /At most/);
+
+    sinks[0].error(new Error('connection lost'));
+    sinks[1].complete();
+    registry.start(endpoint, 'subscription { a }', undefined, {});
+    registry.start(endpoint, 'subscription { a }', undefined, {});
+    assert.throws(() => registry.start(endpoint, 'subscription { a }', undefined, {}), /At most/);
+    assert.equal(registry.list().length, MAX_ACTIVE_WATCHES + 2);
+  });
+
+  it('closes every subscription on stopAll', () => {
+    const { endpoint, closedCount } = fakeEndpoint();
+    const registry = createWatchRegistry();
+    registry.start(endpoint, 'subscription { a }', undefined, {});
+    registry.start(endpoint, 'subscription { b }', undefined, {});
+    registry.stopAll();
+    assert.equal(closedCount(), 2);
+    assert.equal(registry.list().length, 0);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSchema, introspectionFromSchema } from 'graphql';
+import { findTableType, isTableRootFieldName, listTableNames, summarizeTable } from '../src/utils/tableSummary.js';
+
+const schema = introspectionFromSchema(buildSchema(`
+  """Registered users"""
+  type users { id: Int! name: String }
+  type sales_orders { id: Int! }
+  type Products { sku: String! }
+  type users_aggregate { count: Int }
+  type query_root {
+    users: [users!]!
+    users_by_pk(id: Int!): users
+    users_aggregate: users_aggregate!
+    users_stream(batch_size: Int!): [users!]!
+    orders: [sales_orders!]!
+    products: [Products!]!
+    server_time: String
+  }
+  schema { query: query_root }
+`)).__schema;
+
+describe('listTableNames', () => {
+  it('lists object-returning root fields without the generated ones, sorted', () => {
+    assert.deepEqual(listTableNames(schema), ['orders', 'products', 'users']);
+  });
+
+  it('recognizes generated root field names', () => {
+    assert.equal(isTableRootFieldName('users'), true);
+    for (const name of ['users_by_pk', 'users_aggregate', 'users_stream', '__schema']) {
+      assert.equal(isTableRootFieldName(name), false, name);
+    }
+  });
+});
+
+describe('findTableType', () => {
+  it('tries the exact name, the schema-prefixed name and the capitalized name', () => {
+    assert.equal(findTableType(schema, 'users')?.name, 'users');
+    assert.equal(findTableType(schema, 'orders', 'sales')?.name, 'sales_orders');
+    assert.equal(findTableType(schema, 'products')?.name, 'Products');
+    assert.equal(findTableType(schema, 'orders'), undefined);
+  });
+});
+
+describe('summarizeTable from introspection', () => {
+  it('describes the columns, sorted by name', () => {
+    const summary = summarizeTable(schema, 'users');
+    assert.equal(summary.basedOn, 'introspection');
+    assert.equal(summary.table.schema, 'public');
+    assert.equal(summary.table.description, 'Registered users');
+    assert.deepEqual(summary.table.columns.map(c => [c.name, c.type]), [['id', 'Int!'], ['name', 'String']]);
+  });
+
+  it('throws for unknown tables', () => {
+    assert.throws(() => summarizeTable(schema, 'nope'), /Table 'nope' not found/);
+  });
+});
+
+describe('summarizeTable keys and field kinds', () => {
+  const keyed = introspectionFromSchema(buildSchema(`
+    type authors {
+      id: Int!
+      tenant: String!
+      email: String
+      full_name: String
+      profile: profiles
+      posts: [posts!]!
+      posts_aggregate: posts_aggregate!
+    }
+    type profiles { id: Int! }
+    type posts { id: Int! }
+    type posts_aggregate { count: Int }
+    enum authors_select_column { id tenant email }
+    enum authors_constraint {
+      "unique or primary key constraint on columns \\"id\\", \\"tenant\\""
+      authors_pkey
+      "unique or primary key constraint on columns \\"email\\""
+      authors_email_key
+    }
+    type query_root {
+      authors: [authors!]!
+      authors_by_pk(id: Int!, tenant: String!): authors
+      posts: [posts!]!
+    }
+    schema { query: query_root }
+  `)).__schema;
+
+  it('reads the primary key from the by_pk root field and marks its columns', () => {
+    const summary = summarizeTable(keyed, 'authors');
+    assert.deepEqual(summary.table.primaryKey, ['id', 'tenant']);
+    const keyColumns = summary.table.columns.filter(c => c.isPrimaryKey).map(c => c.name);
+    assert.deepEqual(keyColumns, ['id', 'tenant']);
+    assert.equal(summarizeTable(keyed, 'posts').table.primaryKey, null);
+  });
+
+  it('reads unique constraints from the constraint enum descriptions', () => {
+    assert.deepEqual(summarizeTable(keyed, 'authors').table.uniqueConstraints, [
+      { name: 'authors_pkey', columns: ['id', 'tenant'], isPrimaryKey: true },
+      { name: 'authors_email_key', columns: ['email'], isPrimaryKey: false },
+    ]);
+    assert.deepEqual(summarizeTable(keyed, 'posts').table.uniqueConstraints, []);
+  });
+
+  it('tells columns, relationships, aggregates and computed fields apart', () => {
+    const byName = Object.fromEntries(summarizeTable(keyed, 'authors').table.columns.map(c => [c.name, c]));
+    assert.equal(byName.email.kind, 'column');
+    assert.equal(byName.full_name.kind, 'computed_field');
+    assert.equal(byName.profile.kind, 'object_relationship');
+    assert.equal(byName.profile.targetTable, 'profiles');
+    assert.equal(byName.posts.kind, 'array_relationship');
+    assert.equal(byName.posts.targetTable, 'posts');
+    assert.equal(byName.posts.aggregate, undefined);
+    assert.equal(byName.posts_aggregate.kind, 'array_relationship');
+    assert.equal(byName.posts_aggregate.targetTable, 'posts');
+    assert.equal(byName.posts_aggregate.aggregate, true);
+  });
+});